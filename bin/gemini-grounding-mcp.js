@@ -11,15 +11,26 @@ if (args.includes("--help") || args.includes("-h")) {
 Gemini Grounding MCP Server
 
 Usage:
-  npx gemini-grounding-mcp       Start the MCP server
-  npx gemini-grounding-mcp --cli Run the CLI interface for testing
+  npx gemini-grounding-mcp                   Start the MCP server (stdio)
+  npx gemini-grounding-mcp --transport=http  Start a shared HTTP server
+  npx gemini-grounding-mcp --cli             Run the CLI interface for testing
 
 Options:
-  --help, -h     Show this help message
-  --cli          Run the CLI interface for testing
+  --help, -h          Show this help message
+  --cli               Run the CLI interface for testing
+  --transport=<mode>  Transport: stdio (default) or http (Streamable HTTP + SSE)
+  --host=<address>    Bind address for http transport (default: 127.0.0.1)
+  --port=<port>       Port for http transport (default: 3000)
 
 Environment Variables:
-  GEMINI_API_KEY  Gemini API Key (only needed if not using OAuth)
+  GEMINI_API_KEY             Gemini API Key (only needed if not using OAuth)
+  GOOGLE_GENAI_USE_VERTEXAI  Set to true to use Vertex AI with Application Default Credentials
+  GOOGLE_CLOUD_PROJECT       Google Cloud project for Vertex AI
+  GOOGLE_CLOUD_LOCATION      Vertex AI region (default: us-central1)
+  MCP_TRANSPORT              Transport mode (same as --transport)
+  MCP_HOST                   Bind address (same as --host)
+  MCP_PORT                   Port (same as --port)
+  MCP_AUTH_TOKEN             Require this bearer token on http transport requests
 
 For more information, visit: https://github.com/yuki-yano/gemini-grounding-mcp
 `);
@@ -1,11 +1,19 @@
 import { readFileSync } from "node:fs";
-import { homedir } from "node:os";
-import { join } from "node:path";
 import dotenv from "dotenv";
+import { GoogleAuth } from "google-auth-library";
 import type { AuthMethod } from "../types/index";
-import { OAuth2Client } from "./oauth2";
+import { defaultOAuthCredentialsPath, OAuth2Client } from "./oauth2";
 
-dotenv.config();
+dotenv.config({ quiet: true });
+
+const CLOUD_PLATFORM_SCOPE = "https://www.googleapis.com/auth/cloud-platform";
+const DEFAULT_VERTEX_LOCATION = "us-central1";
+
+// Pin a specific credential instead of detecting one from the environment
+export interface AuthConfigOptions {
+  apiKey?: string;
+  oauthCredentialsPath?: string;
+}
 
 export class AuthConfig {
   private apiKey: string | null = null;
@@ -14,12 +22,35 @@ export class AuthConfig {
   private tokenExpiry: Date | null = null;
   private authMethod: AuthMethod["type"] | null = null;
   private oauth2Client: OAuth2Client | null = null;
+  private googleAuth: GoogleAuth | null = null;
+  private vertexProject: string | null = null;
+
+  constructor(options: AuthConfigOptions = {}) {
+    if (options.apiKey) {
+      this.apiKey = options.apiKey;
+      this.authMethod = "api-key";
+      return;
+    }
+
+    if (options.oauthCredentialsPath) {
+      if (!this._initializeOAuth(options.oauthCredentialsPath)) {
+        throw new Error(
+          `No valid OAuth credentials found in ${options.oauthCredentialsPath}`,
+        );
+      }
+      return;
+    }
 
-  constructor() {
     this._initialize();
   }
 
   private _initialize(): void {
+    // Vertex AI is opt-in because a GEMINI_API_KEY in .env would win otherwise
+    if (process.env.GOOGLE_GENAI_USE_VERTEXAI === "true") {
+      this._initializeVertexAI();
+      return;
+    }
+
     // First, try API key from environment
     if (process.env.GEMINI_API_KEY) {
       this.apiKey = process.env.GEMINI_API_KEY;
@@ -28,9 +59,24 @@ export class AuthConfig {
     }
 
     // Second, try OAuth credentials from ~/.gemini/oauth_creds.json
+    if (this._initializeOAuth(defaultOAuthCredentialsPath())) {
+      return;
+    }
+
+    // Finally, fall back to Vertex AI when a service account key is configured
+    if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+      this._initializeVertexAI();
+      return;
+    }
+
+    throw new Error(
+      'No authentication method found. Please set GEMINI_API_KEY environment variable, run "gemini auth login" or set GOOGLE_GENAI_USE_VERTEXAI=true with Application Default Credentials',
+    );
+  }
+
+  private _initializeOAuth(credentialsPath: string): boolean {
     try {
-      const oauthPath = join(homedir(), ".gemini", "oauth_creds.json");
-      const oauthData = JSON.parse(readFileSync(oauthPath, "utf8"));
+      const oauthData = JSON.parse(readFileSync(credentialsPath, "utf8"));
 
       if (oauthData.access_token) {
         this.oauthToken = oauthData.access_token;
@@ -40,19 +86,23 @@ export class AuthConfig {
         }
         this.authMethod = "oauth";
 
-        // Initialize OAuth2 client
-        // The OAuth2Client will use the token from ~/.gemini/oauth_creds.json
-        // Token refresh is handled by the gemini CLI
-        this.oauth2Client = new OAuth2Client();
-        return;
+        // The OAuth2Client reads the token from the same file and refreshes
+        // it when expired
+        this.oauth2Client = new OAuth2Client({ credentialsPath });
+        return true;
       }
     } catch (_error) {
-      // OAuth file not found or invalid, continue
+      // OAuth file not found or invalid
     }
+    return false;
+  }
 
-    throw new Error(
-      'No authentication method found. Please set GEMINI_API_KEY environment variable or run "gemini auth login"',
-    );
+  // Application Default Credentials: GOOGLE_APPLICATION_CREDENTIALS key file,
+  // gcloud user credentials or the metadata server
+  private _initializeVertexAI(): void {
+    this.googleAuth = new GoogleAuth({ scopes: [CLOUD_PLATFORM_SCOPE] });
+    this.vertexProject = process.env.GOOGLE_CLOUD_PROJECT || null;
+    this.authMethod = "vertex-ai";
   }
 
   isApiKey(): boolean {
@@ -63,6 +113,10 @@ export class AuthConfig {
     return this.authMethod === "oauth";
   }
 
+  isVertexAI(): boolean {
+    return this.authMethod === "vertex-ai";
+  }
+
   getApiKey(): string {
     if (!this.isApiKey() || !this.apiKey) {
       throw new Error("API key not available");
@@ -70,20 +124,55 @@ export class AuthConfig {
     return this.apiKey;
   }
 
-  async getOAuthToken(): Promise<string> {
+  async getOAuthToken(signal?: AbortSignal): Promise<string> {
     if (!this.isOAuth() || !this.oauth2Client) {
       throw new Error("OAuth not available");
     }
 
     // Get valid token (refreshed if needed)
-    const token = await this.oauth2Client.getValidToken();
+    const token = await this.oauth2Client.getValidToken(signal);
     this.oauthToken = token;
     return token;
   }
 
-  async getHeaders(): Promise<Record<string, string>> {
+  // Project from GOOGLE_CLOUD_PROJECT, otherwise from the credentials
+  async getVertexProject(): Promise<string> {
+    if (!this.isVertexAI() || !this.googleAuth) {
+      throw new Error("Vertex AI not available");
+    }
+
+    if (!this.vertexProject) {
+      try {
+        this.vertexProject = await this.googleAuth.getProjectId();
+      } catch (error) {
+        throw new Error(
+          `Could not determine the Vertex AI project. Set GOOGLE_CLOUD_PROJECT (${(error as Error).message})`,
+        );
+      }
+    }
+    return this.vertexProject;
+  }
+
+  getVertexLocation(): string {
+    return process.env.GOOGLE_CLOUD_LOCATION || DEFAULT_VERTEX_LOCATION;
+  }
+
+  async getHeaders(signal?: AbortSignal): Promise<Record<string, string>> {
+    if (this.isVertexAI() && this.googleAuth) {
+      // google-auth-library takes no signal; give up once it resolves
+      const token = await this.googleAuth.getAccessToken();
+      signal?.throwIfAborted();
+      if (!token) {
+        throw new Error("Application Default Credentials returned no token");
+      }
+      return {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      };
+    }
+
     if (this.isOAuth()) {
-      const token = await this.getOAuthToken();
+      const token = await this.getOAuthToken(signal);
       return {
         Authorization: `Bearer ${token}`,
         "Content-Type": "application/json",
@@ -2,6 +2,7 @@ import { readFileSync, writeFileSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
 import { OAUTH_CLIENT_ID, OAUTH_CLIENT_SECRET } from "../const";
+import { withTimeout } from "../utils/abort";
 
 interface OAuth2Token {
   access_token: string;
@@ -10,11 +11,35 @@ interface OAuth2Token {
   expiry_date: number;
 }
 
+const DEFAULT_TOKEN_ENDPOINT = "https://oauth2.googleapis.com/token";
+
+export function defaultOAuthCredentialsPath(): string {
+  return join(homedir(), ".gemini", "oauth_creds.json");
+}
+
 export class OAuth2Client {
-  private readonly oauthPath = join(homedir(), ".gemini", "oauth_creds.json");
-  private readonly tokenEndpoint = "https://oauth2.googleapis.com/token";
+  private readonly oauthPath: string;
+  private readonly tokenEndpoint: string;
+  private readonly requestTimeout: number;
 
-  async getValidToken(): Promise<string> {
+  constructor(
+    options: {
+      tokenEndpoint?: string;
+      credentialsPath?: string;
+      requestTimeoutMs?: number;
+    } = {},
+  ) {
+    this.oauthPath = options.credentialsPath || defaultOAuthCredentialsPath();
+    this.tokenEndpoint =
+      options.tokenEndpoint ||
+      process.env.OAUTH_TOKEN_ENDPOINT ||
+      DEFAULT_TOKEN_ENDPOINT;
+    this.requestTimeout =
+      options.requestTimeoutMs ??
+      Number.parseInt(process.env.OAUTH_REQUEST_TIMEOUT || "10000", 10);
+  }
+
+  async getValidToken(signal?: AbortSignal): Promise<string> {
     const token = this.loadToken();
 
     if (!token) {
@@ -31,12 +56,17 @@ export class OAuth2Client {
     }
 
     // Token is expired, refresh it
-    console.log("OAuth token expired, refreshing...");
+    console.error("OAuth token expired, refreshing...");
     try {
-      const refreshedToken = await this.refreshToken(token.refresh_token);
+      const refreshedToken = await this.refreshToken(
+        token.refresh_token,
+        signal,
+      );
       this.saveToken(refreshedToken);
       return refreshedToken.access_token;
     } catch (error) {
+      // A cancelled request isn't a failed refresh
+      signal?.throwIfAborted();
       console.error("Token refresh failed:", error);
       throw new Error(
         "OAuth token has expired and refresh failed. Please re-authenticate using 'gemini' command.",
@@ -61,7 +91,10 @@ export class OAuth2Client {
     }
   }
 
-  private async refreshToken(refreshToken: string): Promise<OAuth2Token> {
+  private async refreshToken(
+    refreshToken: string,
+    signal?: AbortSignal,
+  ): Promise<OAuth2Token> {
     const params = new URLSearchParams({
       client_id: OAUTH_CLIENT_ID,
       client_secret: OAUTH_CLIENT_SECRET,
@@ -75,6 +108,7 @@ export class OAuth2Client {
         "Content-Type": "application/x-www-form-urlencoded",
       },
       body: params.toString(),
+      signal: withTimeout(signal, this.requestTimeout),
     });
 
     if (!response.ok) {
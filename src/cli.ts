@@ -2,6 +2,11 @@
 import "dotenv/config";
 import { GeminiClient } from "./gemini/client";
 import type { BatchSearchResponse } from "./types/index";
+import {
+  CACHE_NAMESPACES,
+  isCacheNamespace,
+  PersistentCache,
+} from "./utils/cache";
 
 function formatBatchResultAsMarkdown(result: BatchSearchResponse): string {
   let output = `# Batch Search Results\n\n`;
@@ -83,11 +88,43 @@ async function main() {
     console.log(
       "  pnpm cli --batch --content-mode=full <queries> - Batch search with full content",
     );
+    console.log(
+      "  pnpm cli --batch --model=gemini-2.5-pro <queries> - Batch search with a specific model",
+    );
     console.log("  pnpm cli --scrape <url>                     - Scrape URL");
+    console.log(
+      "  pnpm cli --cache-stats                      - Show persistent cache statistics",
+    );
+    console.log(
+      "  pnpm cli --cache-clear[=scrape|search]      - Clear the persistent cache (or one namespace)",
+    );
     process.exit(0);
   }
 
   try {
+    // Cache commands don't need credentials, so handle them before creating the client
+    if (args[0] === "--cache-stats") {
+      const stats = await new PersistentCache().stats();
+      console.log(JSON.stringify(stats, null, 2));
+      return;
+    }
+
+    if (args[0].startsWith("--cache-clear")) {
+      const namespace = args[0].split("=")[1];
+      if (namespace !== undefined && !isCacheNamespace(namespace)) {
+        console.error(
+          `Error: Unknown cache namespace "${namespace}" (expected ${CACHE_NAMESPACES.join(" or ")})`,
+        );
+        process.exit(1);
+      }
+      const cache = new PersistentCache();
+      await cache.clear(namespace);
+      console.log(
+        `Cleared ${namespace ? `"${namespace}" entries from ` : ""}cache at ${cache.directory}`,
+      );
+      return;
+    }
+
     const client = new GeminiClient();
 
     if (args[0] === "search" && args.length > 1) {
@@ -116,6 +153,8 @@ async function main() {
       let format = "markdown"; // Default to markdown format
       let scrapeContent = true;
       let contentMode: "excerpt" | "summary" | "full" = "summary"; // Default to summary mode
+      let model: string | undefined;
+      let summaryModel: string | undefined;
       const queries: string[] = [];
 
       for (let i = 1; i < args.length; i++) {
@@ -125,6 +164,10 @@ async function main() {
           scrapeContent = false;
         } else if (args[i].startsWith("--content-mode=")) {
           contentMode = args[i].split("=")[1] as "excerpt" | "summary" | "full";
+        } else if (args[i].startsWith("--model=")) {
+          model = args[i].split("=")[1];
+        } else if (args[i].startsWith("--summary-model=")) {
+          summaryModel = args[i].split("=")[1];
         } else if (!args[i].startsWith("--")) {
           queries.push(args[i]);
         }
@@ -141,6 +184,8 @@ async function main() {
       const result = await client.batchSearch(queries, {
         scrapeContent,
         contentMode,
+        model,
+        summaryModel,
       });
 
       if (format === "markdown") {
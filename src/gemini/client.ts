@@ -1,185 +1,621 @@
-import {
-  type GenerativeModel,
-  GoogleGenerativeAI,
-  type GoogleSearchRetrievalTool,
-} from "@google/generative-ai";
-import { AuthConfig } from "../auth/config";
 import type {
+  ConversationTurn,
+  GeminiCandidate,
   GeminiOAuthResponse,
-  GeminiResponse,
   GroundingChunk,
   GroundingMetadata,
 } from "../types/gemini";
 import type {
+  BatchProgress,
   BatchSearchResponse,
   BatchSearchResult,
   Citation,
+  CitationSupport,
+  DeepResearchResult,
   ErrorResponse,
+  ExcludedSource,
+  ResearchProgress,
+  ResearchRound,
+  ResearchStopReason,
+  ScrapedContent,
+  ScrapeResponse,
   SearchResult,
   SearchResultDetail,
+  SummaryResult,
+  VerifyCitationsMode,
 } from "../types/index";
+import { withTimeout } from "../utils/abort";
+import { PersistentCache } from "../utils/cache";
+import { chunkMarkdown } from "../utils/chunker";
+import { CitationVerifier } from "../utils/citation-verifier";
+import { DomainFilter, type DomainFilterOptions } from "../utils/domain-filter";
 import {
+  DEFAULT_MAX_SEARCH_RESULTS,
   extractSearchResults,
   formatBatchResults,
   formatError,
   formatSearchResult,
   insertCitations,
 } from "../utils/formatter";
+import {
+  FreshnessFilter,
+  type FreshnessOptions,
+  sortByDate,
+} from "../utils/freshness";
+import { locateQuotes, quotesInstruction, splitQuotes } from "../utils/quotes";
+import {
+  mergeBibliography,
+  splitSynthesis,
+  stitchAnswers,
+  synthesisPrompt,
+} from "../utils/report";
+import {
+  gapPrompt,
+  parseQueries,
+  planPrompt,
+  researchNotes,
+} from "../utils/research";
+import {
+  getScheduler,
+  isRateLimitError,
+  type Priority,
+  type ScheduleOptions,
+  type Scheduler,
+} from "../utils/scheduler";
 import { Scraper } from "../utils/scraper";
-import { CodeAssistClient } from "./code-assist-client";
+import { UrlResolver } from "../utils/url-resolver";
+import { createProvider, type SearchProvider } from "./providers/index";
+import { SessionStore } from "./sessions";
+
+export const DEFAULT_MODEL = "gemini-2.5-flash";
+const SEARCH_CACHE_NAMESPACE = "search";
+const BACKEND_RETRIES = 3;
+// Chunk summaries shorter than this lose too much to be worth merging
+const MIN_CHUNK_SUMMARY_LENGTH = 300;
+const MAX_QUOTES = 5;
+const RESEARCH_QUERIES_PER_ROUND = 5;
+// Share of deep research's time budget kept for writing the report
+const RESEARCH_REPORT_SHARE = 0.25;
 
 interface SearchWithDetailsResult {
   summary: string;
   searchResults: SearchResultDetail[];
   citations: Citation[];
+  credential?: string;
+  excludedSources?: ExcludedSource[];
+}
+
+// Settings of one request threaded through the search pipeline: queue
+// priority, cancellation, retry reporting, the domain filter and freshness
+type BatchSearchOptions = {
+  scrapeContent?: boolean;
+  contentMode?: "excerpt" | "summary" | "full";
+  maxContentLength?: number;
+  model?: string;
+  summaryModel?: string;
+  sortByDate?: boolean; // Newest scraped pages first
+  verifyCitations?: VerifyCitationsMode; // Check citations against sources
+  synthesize?: boolean; // Merge the answers into one report
+  signal?: AbortSignal;
+  onProgress?: (progress: BatchProgress) => void;
+} & DomainFilterOptions &
+  FreshnessOptions;
+
+interface CallContext {
+  priority?: Priority;
+  signal?: AbortSignal;
+  onRetry?: ScheduleOptions["onRetry"];
+  domainFilter?: DomainFilter;
+  freshness?: FreshnessFilter;
+}
+
+export interface SummarizeOptions {
+  model?: string;
+  priority?: Priority;
+  signal?: AbortSignal;
+  query?: string; // Aim the summary and its quotes at this question
+}
+
+interface GroundedCandidate {
+  candidate: GeminiCandidate;
+  credential?: string; // Pooled credential that served the request
 }
 
 export class GeminiClient {
-  private auth: AuthConfig;
+  private provider: SearchProvider;
+  private cache: PersistentCache;
+  private searchCacheTTL: number;
   private scraper: Scraper;
-  private model: GenerativeModel | null = null;
-  private codeAssistClient: CodeAssistClient | null = null;
+  private urlResolver: UrlResolver;
+  private sessions: SessionStore;
+  private scheduler: Scheduler;
+  private domainFilter: DomainFilter;
+  private citationVerifier: CitationVerifier;
+  private retryDelay: number;
+  private summaryChunkSize: number;
+  private summaryMaxChunks: number;
+  private researchMaxRounds: number;
+  private researchMaxQueries: number;
+  private researchTimeBudget: number;
+  private searchModel: string;
+  private summaryModel: string;
 
-  constructor() {
-    this.auth = new AuthConfig();
-    this.scraper = new Scraper(this);
-    this._initializeModel();
+  constructor(provider?: SearchProvider) {
+    this.provider = provider ?? createProvider();
+    this.searchModel = process.env.GEMINI_MODEL || DEFAULT_MODEL;
+    this.summaryModel = process.env.GEMINI_SUMMARY_MODEL || this.searchModel;
+    this.cache = new PersistentCache();
+    this.searchCacheTTL =
+      Number.parseInt(
+        process.env.SEARCH_CACHE_TTL || process.env.CACHE_TTL || "3600",
+        10,
+      ) * 1000;
+    this.scraper = new Scraper(this, this.cache);
+    this.urlResolver = new UrlResolver();
+    this.sessions = new SessionStore();
+    this.scheduler = getScheduler();
+    this.domainFilter = DomainFilter.fromEnv();
+    this.citationVerifier = new CitationVerifier(
+      this.scraper,
+      (claim, passages, options) => this._judgeClaim(claim, passages, options),
+    );
+    this.retryDelay = Number.parseInt(
+      process.env.BACKEND_RETRY_DELAY || "4000",
+      10,
+    );
+    this.summaryChunkSize = Number.parseInt(
+      process.env.SUMMARY_CHUNK_SIZE || "12000",
+      10,
+    );
+    this.summaryMaxChunks = Number.parseInt(
+      process.env.SUMMARY_MAX_CHUNKS || "16",
+      10,
+    );
+    this.researchMaxRounds = Number.parseInt(
+      process.env.RESEARCH_MAX_ROUNDS || "3",
+      10,
+    );
+    this.researchMaxQueries = Number.parseInt(
+      process.env.RESEARCH_MAX_QUERIES || "12",
+      10,
+    );
+    this.researchTimeBudget =
+      Number.parseInt(process.env.RESEARCH_TIME_BUDGET || "300", 10) * 1000;
+  }
 
-    // Initialize Code Assist client for OAuth
-    if (this.auth.isOAuth()) {
-      this.codeAssistClient = new CodeAssistClient(this.auth);
+  /**
+   * Summarize text in about maxLength characters, aimed at options.query when
+   * given, with the passages most relevant to it. Long texts are split into
+   * chunks at Markdown headings and paragraphs, the chunks are summarized in
+   * parallel (paced by the scheduler) and the chunk summaries are merged.
+   * Failed calls fall back to excerpts of every chunk rather than only the
+   * start of the text.
+   */
+  async summarize(
+    text: string,
+    maxLength = 500,
+    options: SummarizeOptions = {},
+  ): Promise<SummaryResult> {
+    const chunks = chunkMarkdown(text, this.summaryChunkSize);
+    const used = chunks.slice(0, this.summaryMaxChunks);
+
+    if (used.length <= 1) {
+      try {
+        const { summary, quotes } = await this._generateSummary(
+          `Please provide a concise summary of the following text in about ${maxLength} characters. ${this._summaryFocus(options.query)}`,
+          text,
+          options,
+        );
+        return {
+          text: summary,
+          coverage: {
+            chunks: 1,
+            summarizedChunks: 1,
+            droppedChunks: 0,
+            truncated: false,
+          },
+          quotes: locateQuotes(text, quotes, MAX_QUOTES),
+        };
+      } catch (error) {
+        options.signal?.throwIfAborted();
+        console.error("Summarization error:", error);
+        return {
+          text: this._excerpts([text], maxLength),
+          coverage: {
+            chunks: 1,
+            summarizedChunks: 0,
+            droppedChunks: 0,
+            truncated: true,
+          },
+          quotes: [],
+        };
+      }
     }
-  }
 
-  private _initializeModel(): void {
-    if (this.auth.isApiKey()) {
-      const genAI = new GoogleGenerativeAI(this.auth.getApiKey());
-      const searchTool: GoogleSearchRetrievalTool = {
-        googleSearchRetrieval: {},
+    // Map: every chunk is summarized at once; the scheduler paces the calls
+    const chunkLength = Math.max(
+      Math.ceil((maxLength * 2) / used.length),
+      MIN_CHUNK_SUMMARY_LENGTH,
+    );
+    const summaries = await Promise.all(
+      used.map(async (chunk, index) => {
+        try {
+          return await this._generateSummary(
+            `This is part ${index + 1} of ${chunks.length} of a longer document. Summarize it in about ${chunkLength} characters, keeping the facts, names and numbers a reader would need. ${this._summaryFocus(options.query)}`,
+            chunk,
+            options,
+          );
+        } catch (error) {
+          options.signal?.throwIfAborted();
+          console.error(
+            `Summarization of chunk ${index + 1}/${chunks.length} failed:`,
+            error,
+          );
+          return undefined;
+        }
+      }),
+    );
+    const kept = summaries.filter((summary) => summary !== undefined);
+    const candidates = kept.flatMap((summary) => summary.quotes);
+    const coverage = {
+      chunks: chunks.length,
+      summarizedChunks: kept.length,
+      droppedChunks: chunks.length - kept.length,
+      truncated: false,
+    };
+
+    if (kept.length === 0) {
+      return {
+        text: this._excerpts(used, maxLength),
+        coverage: {
+          ...coverage,
+          droppedChunks: chunks.length - used.length,
+          truncated: true,
+        },
+        quotes: [],
       };
-      this.model = genAI.getGenerativeModel({
-        model: "gemini-2.5-flash",
-        tools: [searchTool],
-      });
     }
-  }
 
-  async summarize(text: string, maxLength = 500): Promise<string> {
+    // Reduce: merge the chunk summaries in document order and pick the best
+    // of the chunks' quotes
+    const merged = kept.map((summary) => summary.summary).join("\n\n");
+    const quoted =
+      candidates.length > 0
+        ? `\n\nQuotes picked from the parts:\n${candidates.map((quote) => `- ${quote}`).join("\n")}`
+        : "";
     try {
-      const prompt = `Please provide a concise summary of the following text in about ${maxLength} characters. Focus on the main points and key information:\n\n${text}`;
-
-      if (this.auth.isApiKey() && this.model) {
-        const result = await this.model.generateContent(prompt);
-        return result.response.text();
-      } else {
-        // Use OAuth path
-        const response = await this._oauthRequest(prompt);
-        return (
-          response.candidates?.[0]?.content?.parts?.[0]?.text ||
-          "Summary generation failed"
-        );
-      }
+      const { summary, quotes } = await this._generateSummary(
+        `The following are summaries of consecutive parts of one document. Merge them into a single concise summary of about ${maxLength} characters, without repeating yourself. ${this._summaryFocus(options.query, "the quotes picked from the parts")}`,
+        `${merged}${quoted}`,
+        options,
+      );
+      return {
+        text: summary,
+        coverage,
+        quotes: locateQuotes(text, quotes, MAX_QUOTES),
+      };
     } catch (error) {
-      console.error("Summarization error:", error);
-      // Fallback to excerpt if summarization fails
-      return `${text.slice(0, maxLength)}...`;
+      options.signal?.throwIfAborted();
+      console.error("Merging chunk summaries failed:", error);
+      return {
+        text: this._excerpts(
+          kept.map((summary) => summary.summary),
+          maxLength,
+        ),
+        coverage: { ...coverage, truncated: true },
+        quotes: locateQuotes(text, candidates, MAX_QUOTES),
+      };
+    }
+  }
+
+  // What a summary prompt should focus on, and where its quotes come from
+  private _summaryFocus(
+    query: string | undefined,
+    source = "the text",
+  ): string {
+    const focus = query
+      ? `Focus on what the text says about this question: "${query}". Leave out what is unrelated to it, and say so briefly if the text doesn't address it.`
+      : "Focus on the main points and key information.";
+    return `${focus} ${quotesInstruction(MAX_QUOTES, query, source)}`;
+  }
+
+  private async _generateSummary(
+    instruction: string,
+    text: string,
+    options: SummarizeOptions,
+  ): Promise<{ summary: string; quotes: string[] }> {
+    const split = splitQuotes(
+      await this._generate(`${instruction}\n\n${text}`, options),
+    );
+    if (!split.summary) {
+      throw new Error(`Empty summary from ${this.provider.name}`);
+    }
+    return split;
+  }
+
+  // Text of an ungrounded generation with the summary model; throws when the
+  // response has none
+  private async _generate(
+    prompt: string,
+    options: Omit<SummarizeOptions, "query">,
+  ): Promise<string> {
+    const model = options.model || this.summaryModel;
+    const response = await this._callBackend(
+      () => this.provider.generate(prompt, model, { signal: options.signal }),
+      { priority: options.priority ?? "interactive", signal: options.signal },
+    );
+    const text = this._firstCandidate(response)?.content?.parts?.[0]?.text;
+    if (!text) {
+      throw new Error(`Empty response from ${this.provider.name}`);
+    }
+    return text;
+  }
+
+  // The start of every part, sharing maxLength between them
+  private _excerpts(parts: string[], maxLength: number): string {
+    const length = Math.floor(maxLength / parts.length);
+    return parts.map((part) => `${part.slice(0, length)}...`).join("\n\n");
+  }
+
+  // Ask the summary model whether the source passages support a claim
+  private async _judgeClaim(
+    claim: string,
+    passages: string[],
+    options: { priority?: Priority; signal?: AbortSignal },
+  ): Promise<Exclude<CitationSupport, "unverified">> {
+    const prompt = `Does the source text below support the claim? Answer with one word: SUPPORTED if it states the claim, PARTIAL if it supports only part of it or something close to it, UNSUPPORTED if it doesn't.\n\nClaim: ${claim}\n\nSource text:\n${passages.map((passage) => `- ${passage}`).join("\n")}`;
+    const answer = await this._generate(prompt, options);
+    const verdict = answer
+      .toUpperCase()
+      .match(/UNSUPPORTED|PARTIAL|SUPPORTED/)?.[0];
+    if (!verdict) {
+      throw new Error(`No verdict from ${this.provider.name}: ${answer}`);
     }
+    return verdict === "SUPPORTED"
+      ? "supported"
+      : verdict === "PARTIAL"
+        ? "weak"
+        : "unsupported";
   }
 
   async searchWithOptions(
     query: string,
-    _options?: {
+    options?: {
       includeSearchResults?: boolean;
       maxResults?: number;
-    },
+      model?: string;
+      sessionId?: string;
+      // Transport session the follow-up session belongs to; the same
+      // sessionId in another scope is another conversation
+      sessionScope?: string;
+      resetSession?: boolean;
+      verifyCitations?: VerifyCitationsMode; // Check citations against sources
+      signal?: AbortSignal; // Cancels every backend call and fetch
+    } & DomainFilterOptions &
+      FreshnessOptions,
   ): Promise<SearchResult | ErrorResponse> {
-    // For now, call the regular search and we'll enhance it later
-    const result = await this.search(query);
-
-    // If includeSearchResults is requested, we need to fetch search results
-    // This will be implemented after we refactor the search functionality
+    const result = await this._searchWithOptions(query, options);
+    if (!options?.verifyCitations || "error" in result) {
+      return result;
+    }
 
-    return result;
+    return this.citationVerifier.verify(result, options.verifyCitations, {
+      signal: options.signal,
+    });
   }
 
-  async search(query: string): Promise<SearchResult | ErrorResponse> {
-    try {
-      let response: GeminiResponse;
+  private async _searchWithOptions(
+    query: string,
+    options?: {
+      includeSearchResults?: boolean;
+      maxResults?: number;
+      model?: string;
+      sessionId?: string;
+      sessionScope?: string;
+      resetSession?: boolean;
+      signal?: AbortSignal;
+    } & DomainFilterOptions &
+      FreshnessOptions,
+  ): Promise<SearchResult | ErrorResponse> {
+    if (options?.sessionId) {
+      return this._sessionSearch(query, options.sessionId, options);
+    }
 
-      if (this.auth.isApiKey() && this.model) {
-        // Use SDK for API key auth
-        const result = await this.model.generateContent(query);
-        response = result.response as GeminiResponse;
+    if (!options?.includeSearchResults) {
+      return this.search(query, options?.model, options);
+    }
 
-        // Process grounding metadata
-        const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-        if (groundingMetadata?.groundingSupports) {
-          let text = response.text();
-          text = insertCitations(text, groundingMetadata.groundingSupports);
+    const maxResults = options.maxResults ?? DEFAULT_MAX_SEARCH_RESULTS;
 
-          const result = formatSearchResult(
-            {
-              text,
-              citations: this._extractCitations(groundingMetadata),
-            },
-            query,
-          ) as SearchResult;
+    try {
+      const searchResult = await this._searchWithDetails(
+        query,
+        maxResults,
+        options.model,
+        {
+          signal: options.signal,
+          domainFilter: this.domainFilter.narrow(options),
+          freshness: FreshnessFilter.fromOptions(options),
+        },
+      );
+      return this._toDetailedResult(searchResult, query, maxResults);
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      return formatError(error as Error, { query });
+    }
+  }
 
-          return result;
-        }
+  /**
+   * Follow-up search: earlier questions and answers of the session are sent
+   * along with the query. Answers depend on the history, so the search cache
+   * is bypassed.
+   */
+  private async _sessionSearch(
+    query: string,
+    sessionId: string,
+    options: {
+      includeSearchResults?: boolean;
+      maxResults?: number;
+      model?: string;
+      sessionScope?: string;
+      resetSession?: boolean;
+      signal?: AbortSignal;
+    } & DomainFilterOptions &
+      FreshnessOptions,
+  ): Promise<SearchResult | ErrorResponse> {
+    // Session IDs can't contain "/", so scoped keys never collide
+    const key = options.sessionScope
+      ? `${options.sessionScope}/${sessionId}`
+      : sessionId;
+    if (options.resetSession) {
+      this.sessions.reset(key);
+    }
 
-        return formatSearchResult(
-          {
-            text: response.text(),
-            citations: [],
-          },
+    const selectedModel = options.model || this.searchModel;
+    const history = this.sessions.history(key);
+    const context: CallContext = {
+      signal: options.signal,
+      domainFilter: this.domainFilter.narrow(options),
+      freshness: FreshnessFilter.fromOptions(options),
+    };
+    let result: SearchResult;
+
+    if (options.includeSearchResults) {
+      const maxResults = options.maxResults ?? DEFAULT_MAX_SEARCH_RESULTS;
+      try {
+        const searchResult = await this._fetchSearchDetails(
           query,
-        ) as SearchResult;
-      } else {
-        // Use direct API call for OAuth
-        const oauthResponse = await this._oauthSearch(query);
-
-        // Handle potential nested response structure from Code Assist API
-        const candidates =
-          oauthResponse.candidates || oauthResponse.response?.candidates;
-        if (!candidates || candidates.length === 0) {
-          throw new Error("No valid response from Code Assist API");
-        }
+          selectedModel,
+          history,
+          context,
+        );
+        result = this._toDetailedResult(searchResult, query, maxResults);
+      } catch (error) {
+        options.signal?.throwIfAborted();
+        return formatError(error as Error, { query });
+      }
+    } else {
+      const answer = await this._search(query, selectedModel, history, context);
+      if ("error" in answer) {
+        return answer;
+      }
+      result = answer;
+    }
 
-        response = {
-          candidates: candidates,
-          text: () => candidates[0]?.content?.parts?.[0]?.text || "",
-        };
+    // Citation markers refer to this turn's sources only, so they are not
+    // kept in the history
+    const turn = this.sessions.append(
+      key,
+      query,
+      result.summary.replace(/\s*\[\d+\]/g, ""),
+    );
 
-        const candidate = candidates[0];
-        if (candidate?.content?.parts?.[0]?.text) {
-          let text = candidate.content.parts[0].text;
-          const groundingMetadata = candidate.groundingMetadata;
-
-          // Check if text already contains citations
-          const citationPattern = /\[\d+\]/g;
-          const existingCitations = text.match(citationPattern);
-
-          if (existingCitations && existingCitations.length > 0) {
-            // Text already has citations, remove duplicates
-            text = this._removeDuplicateContent(text);
-          } else if (groundingMetadata?.groundingSupports) {
-            // Insert citations if not already present
-            text = insertCitations(text, groundingMetadata.groundingSupports);
-          }
+    return { ...result, session: { id: sessionId, turn } };
+  }
 
-          return formatSearchResult(
-            {
-              text,
-              citations: this._extractCitations(groundingMetadata),
-            },
-            query,
-          ) as SearchResult;
-        }
+  private _toDetailedResult(
+    searchResult: SearchWithDetailsResult,
+    query: string,
+    maxResults: number,
+  ): SearchResult {
+    const result = formatSearchResult(
+      {
+        text: searchResult.summary,
+        citations: searchResult.citations,
+      },
+      query,
+    ) as SearchResult;
+
+    return {
+      ...result,
+      searchResults: searchResult.searchResults.slice(0, maxResults),
+      targetResultCount: maxResults,
+      credential: searchResult.credential,
+      excludedSources: searchResult.excludedSources,
+    };
+  }
+
+  async search(
+    query: string,
+    modelName?: string,
+    options: { signal?: AbortSignal } & DomainFilterOptions &
+      FreshnessOptions = {},
+  ): Promise<SearchResult | ErrorResponse> {
+    const selectedModel = modelName || this.searchModel;
+    const context: CallContext = {
+      signal: options.signal,
+      domainFilter: this.domainFilter.narrow(options),
+      freshness: FreshnessFilter.fromOptions(options),
+    };
+    const cacheKey = this._searchCacheKey(
+      "answer",
+      selectedModel,
+      query,
+      context,
+    );
+    const cached = await this.cache.get<SearchResult>(
+      SEARCH_CACHE_NAMESPACE,
+      cacheKey,
+    );
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this._search(query, selectedModel, [], context);
+    if (!("error" in result)) {
+      await this.cache.set(
+        SEARCH_CACHE_NAMESPACE,
+        cacheKey,
+        this._withoutCredential(result),
+        this.searchCacheTTL,
+      );
+    }
+
+    return result;
+  }
+
+  private async _search(
+    query: string,
+    selectedModel: string,
+    history: ConversationTurn[] = [],
+    context: CallContext = {},
+  ): Promise<SearchResult | ErrorResponse> {
+    try {
+      const { candidate, credential } = await this._groundedSearch(
+        query,
+        selectedModel,
+        history,
+        context,
+      );
+      let text = candidate.content?.parts?.[0]?.text || "";
+      const groundingMetadata = candidate.groundingMetadata;
+
+      // Check if text already contains citations
+      const citationPattern = /\[\d+\]/g;
+      const existingCitations = text.match(citationPattern);
 
-        throw new Error("No valid response from Code Assist API");
+      if (existingCitations && existingCitations.length > 0) {
+        // Text already has citations, remove duplicates
+        text = this._removeDuplicateContent(text);
+      } else if (groundingMetadata?.groundingSupports) {
+        // Insert citations if not already present
+        text = insertCitations(text, groundingMetadata.groundingSupports);
       }
+
+      const result = formatSearchResult(
+        {
+          text,
+          citations: await this.urlResolver.resolveCitations(
+            this._extractCitations(groundingMetadata),
+            { priority: context.priority, signal: context.signal },
+          ),
+        },
+        query,
+      ) as SearchResult;
+      const filtered = context.domainFilter?.apply(result) ?? result;
+      return credential ? { ...filtered, credential } : filtered;
     } catch (error) {
+      context.signal?.throwIfAborted();
       console.error("Search error:", error);
       return formatError(error as Error, { query });
     }
@@ -187,142 +623,454 @@ export class GeminiClient {
 
   async batchSearch(
     queries: string[],
-    options: {
-      scrapeContent?: boolean;
-      contentMode?: "excerpt" | "summary" | "full";
-      maxContentLength?: number;
-    } = { scrapeContent: true },
+    options: BatchSearchOptions = { scrapeContent: true },
   ): Promise<BatchSearchResponse> {
-    const results: BatchSearchResult[] = [];
-    const DEFAULT_BATCH_SIZE = 5;
-    const DEFAULT_RATE_LIMIT_DELAY_MS = 100;
-    const batchSize = Number.parseInt(
-      process.env.BATCH_SIZE || String(DEFAULT_BATCH_SIZE),
-      10,
-    );
-    const delay = Number.parseInt(
-      process.env.RATE_LIMIT_DELAY || String(DEFAULT_RATE_LIMIT_DELAY_MS),
-      10,
+    // The scheduler throttles the backend and scraped hosts, so every query
+    // is started at once at bulk priority
+    const results = await Promise.all(
+      queries.map((query, index) =>
+        this._batchQuery(
+          query,
+          `Query ${index + 1}/${queries.length}`,
+          options,
+        ),
+      ),
     );
 
-    // Track 429 errors
-    let rateLimitErrors = 0;
-    const RATE_LIMIT_THRESHOLD = 2; // Increase delay after 2 rate limit errors
-    const RATE_LIMIT_BACKOFF_MULTIPLIER = 3; // Multiply delay by 3
-
-    // Process queries in batches
-    for (let i = 0; i < queries.length; i += batchSize) {
-      const batch = queries.slice(i, i + batchSize);
-      const batchPromises = batch.map(
-        async (query): Promise<BatchSearchResult> => {
-          try {
-            const searchResult = await this._searchWithDetails(query);
-
-            // Extract URLs from search results
-            const urls = searchResult.searchResults.map((r) => r.url);
-
-            // Scrape content if requested
-            const scrapedContent =
-              options.scrapeContent && urls.length > 0
-                ? await this.scraper.scrapeUrls(urls, {
-                    contentMode: options.contentMode,
-                    maxContentLength: options.maxContentLength,
-                  })
-                : [];
-
-            return {
-              query,
-              summary: searchResult.summary,
-              citations: searchResult.citations,
-              searchResults: searchResult.searchResults,
-              scrapedContent,
-              searchResultCount: searchResult.searchResults.length,
-              targetResultCount: 5,
-            };
-          } catch (error) {
-            console.error(`Error processing query "${query}":`, error);
-
-            // Detect 429 errors
-            const errorMessage = (error as Error).message;
-            if (
-              errorMessage.includes("429") ||
-              errorMessage.includes("RESOURCE_EXHAUSTED")
-            ) {
-              rateLimitErrors++;
-
-              // More detailed error message
-              return {
-                query,
-                error: `Failed to load Code Assist: ${JSON.stringify(
-                  {
-                    error: {
-                      code: 429,
-                      message:
-                        "Resource has been exhausted (e.g. check quota).",
-                      status: "RESOURCE_EXHAUSTED",
-                    },
-                  },
-                  null,
-                  2,
-                )}`,
-              };
-            }
+    const response = formatBatchResults(results);
+    return options.synthesize ? this._synthesize(response, options) : response;
+  }
 
-            return {
-              query,
-              error: errorMessage,
-            };
-          }
+  // Search one query of a batch and scrape its sources; failures other than
+  // cancellation become the query's error
+  private async _batchQuery(
+    query: string,
+    label: string,
+    options: BatchSearchOptions,
+  ): Promise<BatchSearchResult> {
+    const freshness = FreshnessFilter.fromOptions(options);
+    const report = (stage: BatchProgress["stage"], message: string) =>
+      options.onProgress?.({
+        stage,
+        query,
+        message: `${label}: ${message}`,
+      });
+    const onRetry =
+      (target: string) => (error: unknown, attempt: number, delay: number) =>
+        report(
+          "retry",
+          `${target} failed on attempt ${attempt} (${error instanceof Error ? error.message : error}); retrying in ${delay / 1000} seconds`,
+        );
+
+    try {
+      report("query-started", `searching "${query}"`);
+      const searchResult = await this._searchWithDetails(
+        query,
+        DEFAULT_MAX_SEARCH_RESULTS,
+        options.model,
+        {
+          priority: "bulk",
+          signal: options.signal,
+          onRetry: onRetry("Grounded search"),
+          domainFilter: this.domainFilter.narrow(options),
+          freshness,
         },
       );
+      report(
+        "answer-received",
+        `answer received with ${searchResult.searchResults.length} sources`,
+      );
+      const citations = options.verifyCitations
+        ? (
+            await this.citationVerifier.verify(
+              searchResult,
+              options.verifyCitations,
+              { priority: "bulk", signal: options.signal },
+            )
+          ).citations
+        : searchResult.citations;
 
-      const batchResults = await Promise.all(batchPromises);
-      results.push(...batchResults);
+      // Extract URLs from search results
+      const urls = searchResult.searchResults.map((r) => r.url);
 
-      // Rate limiting between batches
-      if (i + batchSize < queries.length) {
-        // Increase delay significantly if rate limit threshold is exceeded
-        if (rateLimitErrors >= RATE_LIMIT_THRESHOLD) {
-          const backoffDelay = delay * RATE_LIMIT_BACKOFF_MULTIPLIER;
-          console.error(
-            `Rate limit errors detected (${rateLimitErrors}). ` +
-              `Increasing delay to ${backoffDelay / 1000} seconds for next batch.`,
-          );
-          await new Promise((resolve) => setTimeout(resolve, backoffDelay));
-          // Reset error count
-          rateLimitErrors = 0;
-        } else {
-          await new Promise((resolve) => setTimeout(resolve, delay));
-        }
+      // Scrape content if requested
+      let scrapedContent =
+        options.scrapeContent && urls.length > 0
+          ? await Promise.all(
+              urls.map(async (url) => {
+                const content = await this.scraper.scrapeUrl(url, {
+                  contentMode: options.contentMode,
+                  maxContentLength: options.maxContentLength,
+                  summaryModel: options.summaryModel,
+                  query,
+                  priority: "bulk",
+                  signal: options.signal,
+                  onRetry: onRetry(`Fetching ${url}`),
+                });
+                report(
+                  "url-scraped",
+                  content.error
+                    ? `failed to scrape ${url} (${content.error})`
+                    : `scraped ${url}`,
+                );
+                return freshness ? freshness.mark(content) : content;
+              }),
+            )
+          : [];
+      if (options.sortByDate) {
+        scrapedContent = sortByDate(scrapedContent);
+      }
+
+      return {
+        query,
+        summary: searchResult.summary,
+        citations,
+        searchResults: searchResult.searchResults,
+        scrapedContent,
+        searchResultCount: searchResult.searchResults.length,
+        targetResultCount: DEFAULT_MAX_SEARCH_RESULTS,
+        credential: searchResult.credential,
+        excludedSources: searchResult.excludedSources,
+      };
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      console.error(`Error processing query "${query}":`, error);
+      report("query-failed", `failed (${(error as Error).message})`);
+
+      // Detect 429 errors
+      if (isRateLimitError(error)) {
+        // More detailed error message
+        return {
+          query,
+          error: `Failed to load Code Assist: ${JSON.stringify(
+            {
+              error: {
+                code: 429,
+                message: "Resource has been exhausted (e.g. check quota).",
+                status: "RESOURCE_EXHAUSTED",
+              },
+            },
+            null,
+            2,
+          )}`,
+        };
       }
+
+      return {
+        query,
+        error: (error as Error).message,
+      };
     }
+  }
 
-    return formatBatchResults(results);
+  /**
+   * Merge a batch into one report: sources are deduplicated into a single
+   * bibliography, the per-query results are renumbered to match and kept
+   * alongside, and the summary model writes the report and lists where the
+   * answers contradict each other. When it fails, the answers are stitched
+   * together under their queries.
+   */
+  private async _synthesize(
+    response: BatchSearchResponse,
+    options: {
+      summaryModel?: string;
+      question?: string; // Write a long-form answer to it, with page notes
+      signal?: AbortSignal;
+      timeout?: number; // Milliseconds before the answers are stitched instead
+    },
+  ): Promise<BatchSearchResponse> {
+    const { results, sources } = mergeBibliography(response.results);
+    const answered = results.filter(
+      (result) => !result.error && result.summary,
+    );
+    if (answered.length === 0) {
+      return {
+        ...response,
+        synthesis: {
+          report: "",
+          sources,
+          contradictions: [],
+          error: "No query returned an answer",
+        },
+      };
+    }
+
+    try {
+      const prompt = synthesisPrompt(answered, {
+        question: options.question,
+        notes: options.question ? researchNotes(results, sources) : undefined,
+      });
+      const output = await this._generate(prompt, {
+        model: options.summaryModel,
+        priority: "bulk",
+        signal: withTimeout(options.signal, options.timeout ?? 0),
+      });
+      return {
+        ...response,
+        results,
+        synthesis: { ...splitSynthesis(output, sources.length), sources },
+      };
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      console.error("Batch synthesis failed:", error);
+      return {
+        ...response,
+        results,
+        synthesis: {
+          report: stitchAnswers(answered),
+          sources,
+          contradictions: [],
+          error: `Synthesis failed: ${(error as Error).message}`,
+        },
+      };
+    }
+  }
+
+  /**
+   * Research a question in rounds: the summary model plans search queries,
+   * each round runs them as a batch (scraping excerpts aimed at each query),
+   * and a gap analysis of the findings so far proposes the next round's
+   * follow-up queries. Research stops when nothing is left open or a budget
+   * of rounds, queries or time is used up. The findings end in a cited
+   * long-form report. The time budget covers the report too: searching
+   * stops at its search share, cutting a running round short and keeping
+   * the answers that arrived, and the report gets the rest.
+   */
+  async deepResearch(
+    question: string,
+    options: {
+      maxRounds?: number;
+      maxQueries?: number;
+      timeBudget?: number; // Milliseconds for the whole research
+      scrapeContent?: boolean;
+      contentMode?: "excerpt" | "summary" | "full";
+      model?: string;
+      summaryModel?: string;
+      signal?: AbortSignal;
+      onProgress?: (progress: ResearchProgress) => void;
+    } & DomainFilterOptions &
+      FreshnessOptions = {},
+  ): Promise<DeepResearchResult> {
+    const started = Date.now();
+    const maxRounds = options.maxRounds ?? this.researchMaxRounds;
+    const maxQueries = options.maxQueries ?? this.researchMaxQueries;
+    const timeBudget = options.timeBudget ?? this.researchTimeBudget;
+    const deadline = started + timeBudget;
+    const searchDeadline = started + timeBudget * (1 - RESEARCH_REPORT_SHARE);
+    // The caller's signal, also aborted when the time runs out
+    const until = (time: number) =>
+      withTimeout(options.signal, Math.max(time - Date.now(), 1));
+    const generateOptions = () => ({
+      model: options.summaryModel,
+      priority: "bulk" as const,
+      signal: until(searchDeadline),
+    });
+    const report = (
+      stage: ResearchProgress["stage"],
+      round: number,
+      message: string,
+    ) => options.onProgress?.({ stage, round, message });
+
+    report("planning", 0, `planning queries for "${question}"`);
+    let followUps: string[];
+    try {
+      followUps = parseQueries(
+        await this._generate(
+          planPrompt(
+            question,
+            Math.min(RESEARCH_QUERIES_PER_ROUND, maxQueries),
+          ),
+          generateOptions(),
+        ),
+        maxQueries,
+      );
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      console.error("Research planning failed, searching the question:", error);
+      followUps = [];
+    }
+    if (followUps.length === 0) {
+      followUps = [question];
+    }
+
+    const rounds: ResearchRound[] = [];
+    const results: BatchSearchResult[] = [];
+    let stopReason: ResearchStopReason;
+    for (let round = 1; ; round++) {
+      // A round that can't get anywhere before the deadline isn't started
+      if (Date.now() >= searchDeadline) {
+        stopReason = "time-budget";
+        break;
+      }
+
+      const queries = followUps.slice(
+        0,
+        Math.min(RESEARCH_QUERIES_PER_ROUND, maxQueries - results.length),
+      );
+      report(
+        "round-started",
+        round,
+        `Round ${round}: searching ${queries.length} ${queries.length === 1 ? "query" : "queries"}`,
+      );
+      const signal = until(searchDeadline);
+      const answers = await Promise.all(
+        queries.map((query, index) =>
+          this._batchQuery(query, `Query ${index + 1}/${queries.length}`, {
+            scrapeContent: options.scrapeContent ?? true,
+            contentMode: options.contentMode ?? "excerpt",
+            model: options.model,
+            summaryModel: options.summaryModel,
+            includeDomains: options.includeDomains,
+            excludeDomains: options.excludeDomains,
+            freshness: options.freshness,
+            signal,
+            onProgress: (progress) =>
+              report(
+                progress.stage,
+                round,
+                `Round ${round}, ${progress.message}`,
+              ),
+          }).catch((error): BatchSearchResult => {
+            // Only the time budget is left to have stopped the query
+            options.signal?.throwIfAborted();
+            console.error(`Research query "${query}" stopped:`, error);
+            return { query, error: "Stopped when the time budget ran out" };
+          }),
+        ),
+      );
+      results.push(...answers);
+      const trail: ResearchRound = { round, queries, followUps: [] };
+      rounds.push(trail);
+      followUps = [];
+
+      if (signal?.aborted) {
+        stopReason = "time-budget";
+        break;
+      }
+
+      report("gap-analysis", round, `Round ${round}: looking for gaps`);
+      try {
+        followUps = parseQueries(
+          await this._generate(
+            gapPrompt(question, results, RESEARCH_QUERIES_PER_ROUND),
+            generateOptions(),
+          ),
+          RESEARCH_QUERIES_PER_ROUND,
+          results.map((result) => result.query),
+        );
+      } catch (error) {
+        options.signal?.throwIfAborted();
+        console.error("Research gap analysis failed:", error);
+        stopReason =
+          Date.now() >= searchDeadline ? "time-budget" : "planning-failed";
+        break;
+      }
+      trail.followUps = followUps;
+
+      if (followUps.length === 0) {
+        stopReason = "answered";
+        break;
+      }
+      if (round >= maxRounds) {
+        stopReason = "max-rounds";
+        break;
+      }
+      if (results.length >= maxQueries) {
+        stopReason = "max-queries";
+        break;
+      }
+    }
+
+    report(
+      "synthesizing",
+      rounds.length,
+      `writing the report from ${results.length} queries`,
+    );
+    const { synthesis, results: numbered } = await this._synthesize(
+      formatBatchResults(results),
+      {
+        summaryModel: options.summaryModel,
+        question,
+        signal: options.signal,
+        timeout: Math.max(deadline - Date.now(), 1),
+      },
+    );
+
+    return {
+      question,
+      report: synthesis?.report ?? "",
+      sources: synthesis?.sources ?? [],
+      contradictions: synthesis?.contradictions ?? [],
+      openQuestions: followUps,
+      rounds,
+      results: numbered,
+      stopReason,
+      elapsedMs: Date.now() - started,
+      ...(synthesis?.error && { error: synthesis.error }),
+    };
   }
 
   private async _searchWithDetails(
     query: string,
+    maxResults = DEFAULT_MAX_SEARCH_RESULTS,
+    modelName?: string,
+    context: CallContext = {},
   ): Promise<SearchWithDetailsResult> {
-    try {
-      let response: GeminiResponse;
-
-      if (this.auth.isApiKey() && this.model) {
-        const result = await this.model.generateContent(query);
-        response = result.response as GeminiResponse;
-      } else {
-        const apiResponse = await this._oauthSearch(query);
-        const candidates =
-          apiResponse.candidates || apiResponse.response?.candidates;
-        response = {
-          text: () => candidates?.[0]?.content?.parts?.[0]?.text || "",
-          candidates: candidates,
-        };
-      }
+    const selectedModel = modelName || this.searchModel;
+    const cacheKey = this._searchCacheKey(
+      "details",
+      selectedModel,
+      query,
+      context,
+    );
+    let result = await this.cache.get<SearchWithDetailsResult>(
+      SEARCH_CACHE_NAMESPACE,
+      cacheKey,
+    );
 
-      const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-      const searchResults = extractSearchResults(groundingMetadata);
+    if (!result) {
+      result = await this._fetchSearchDetails(
+        query,
+        selectedModel,
+        [],
+        context,
+      );
+      await this.cache.set(
+        SEARCH_CACHE_NAMESPACE,
+        cacheKey,
+        this._withoutCredential(result),
+        this.searchCacheTTL,
+      );
+    }
+
+    // The cache holds every source so any maxResults can be served from it
+    return {
+      ...result,
+      searchResults: result.searchResults.slice(0, maxResults),
+    };
+  }
+
+  private async _fetchSearchDetails(
+    query: string,
+    selectedModel: string,
+    history: ConversationTurn[] = [],
+    context: CallContext = {},
+  ): Promise<SearchWithDetailsResult> {
+    try {
+      const { candidate, credential } = await this._groundedSearch(
+        query,
+        selectedModel,
+        history,
+        context,
+      );
+      const groundingMetadata = candidate.groundingMetadata;
+      // Resolve before limiting so duplicate pages don't use up result slots
+      const searchResults = await this.urlResolver.resolveSearchResults(
+        extractSearchResults(groundingMetadata, Number.POSITIVE_INFINITY),
+        { priority: context.priority, signal: context.signal },
+      );
 
-      let summary = response.text();
+      let summary = candidate.content?.parts?.[0]?.text || "";
 
       // Check if text already contains citations
       const citationPattern = /\[\d+\]/g;
@@ -332,44 +1080,95 @@ export class GeminiClient {
         summary = insertCitations(summary, groundingMetadata.groundingSupports);
       }
 
-      return {
+      const result = {
         summary,
         searchResults,
-        citations: this._extractCitations(groundingMetadata),
+        citations: await this.urlResolver.resolveCitations(
+          this._extractCitations(groundingMetadata),
+          { priority: context.priority, signal: context.signal },
+        ),
+        credential,
       };
+      return context.domainFilter?.apply(result) ?? result;
     } catch (error) {
       console.error("Search details error:", error);
       throw error;
     }
   }
 
-  private async _oauthSearch(query: string): Promise<GeminiOAuthResponse> {
-    if (!this.codeAssistClient) {
-      throw new Error("Code Assist client not initialized");
+  private async _groundedSearch(
+    query: string,
+    selectedModel: string,
+    history: ConversationTurn[] = [],
+    context: CallContext = {},
+  ): Promise<GroundedCandidate> {
+    const response = await this._callBackend(
+      () =>
+        this.provider.search(this._steer(query, context), selectedModel, {
+          history,
+          signal: context.signal,
+        }),
+      context,
+    );
+    const candidate = this._firstCandidate(response);
+    if (!candidate) {
+      throw new Error(`No valid response from ${this.provider.name}`);
     }
+    return { candidate, credential: response.credential };
+  }
 
-    // Use Code Assist API with proper project ID handling
-    const response = await this.codeAssistClient.generateContent(
-      "gemini-2.5-flash",
-      query,
-    );
+  // Every backend call goes through the shared scheduler, which also retries
+  // rate limited and network failures. The signal drops queued calls and
+  // stops retrying; calls pass it on to the provider themselves.
+  private _callBackend(
+    call: () => Promise<GeminiOAuthResponse>,
+    context: CallContext,
+  ): Promise<GeminiOAuthResponse> {
+    return this.scheduler.schedule(`backend:${this.provider.name}`, call, {
+      priority: context.priority ?? "interactive",
+      retries: BACKEND_RETRIES,
+      retryDelay: this.retryDelay,
+      isRetryable: (error) =>
+        isRateLimitError(error) || error instanceof TypeError,
+      signal: context.signal,
+      onRetry: context.onRetry,
+    });
+  }
 
-    // Response from Code Assist API may have nested structure
-    return response as GeminiOAuthResponse;
+  // Query with the operators of the call's domain filter and date range
+  private _steer(query: string, context: CallContext): string {
+    const dated = context.freshness?.steer(query) ?? query;
+    return context.domainFilter?.steer(dated) ?? dated;
   }
 
-  private async _oauthRequest(prompt: string): Promise<GeminiOAuthResponse> {
-    if (!this.codeAssistClient) {
-      throw new Error("Code Assist client not initialized");
-    }
+  // Filtered and date-limited searches are cached apart from plain ones
+  private _searchCacheKey(
+    kind: "answer" | "details",
+    model: string,
+    query: string,
+    context: CallContext,
+  ): string {
+    return [
+      kind,
+      model,
+      ...(context.domainFilter?.active ? [context.domainFilter.key] : []),
+      ...(context.freshness ? [`date:${context.freshness.key}`] : []),
+      query,
+    ].join("|");
+  }
 
-    // Use Code Assist API for general requests (without grounding)
-    const response = await this.codeAssistClient.generateContent(
-      "gemini-2.5-flash",
-      prompt,
-    );
+  // A cache hit uses no credential, so cached entries don't name the one
+  // that served the original call
+  private _withoutCredential<T extends { credential?: string }>(result: T): T {
+    const { credential: _credential, ...rest } = result;
+    return rest as T;
+  }
 
-    return response as GeminiOAuthResponse;
+  // Code Assist may nest candidates under a 'response' field
+  private _firstCandidate(
+    response: GeminiOAuthResponse,
+  ): GeminiCandidate | undefined {
+    return (response.candidates || response.response?.candidates)?.[0];
   }
 
   private _extractCitations(
@@ -388,8 +1187,47 @@ export class GeminiClient {
       }));
   }
 
-  async scrapeUrl(url: string) {
-    return this.scraper.scrapeUrl(url);
+  async scrapeUrl(url: string, signal?: AbortSignal) {
+    return this.scraper.scrapeUrl(url, { signal });
+  }
+
+  async scrapeUrls(
+    urls: string[],
+    options: {
+      contentMode?: "excerpt" | "summary" | "full";
+      maxContentLength?: number;
+      summaryModel?: string;
+      query?: string; // Aims excerpts and summaries at this question
+      signal?: AbortSignal;
+    } & DomainFilterOptions &
+      FreshnessOptions = {},
+  ): Promise<ScrapeResponse> {
+    // Filtered URLs are reported as errors in their place, without a fetch
+    const domainFilter = this.domainFilter.narrow(options);
+    const freshness = FreshnessFilter.fromOptions(options);
+    const allowed = urls.filter((url) => !domainFilter.check(url));
+    const scraped = await this.scraper.scrapeUrls(allowed, options);
+
+    const results = urls.map((url): ScrapedContent => {
+      const reason = domainFilter.check(url);
+      if (!reason) {
+        const content = scraped[allowed.indexOf(url)];
+        return freshness ? freshness.mark(content) : content;
+      }
+      return {
+        url,
+        title: "Error",
+        content: null,
+        error: `Blocked by domain filter: ${reason}`,
+        errorKind: "domain-blocked",
+        scrapedAt: new Date().toISOString(),
+      };
+    });
+
+    return {
+      totalUrls: urls.length,
+      results,
+    };
   }
 
   private _removeDuplicateContent(text: string): string {
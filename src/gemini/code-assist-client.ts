@@ -1,4 +1,6 @@
 import type { AuthConfig } from "../auth/config";
+import type { ConversationTurn } from "../types/gemini";
+import { sleep, withTimeout } from "../utils/abort";
 
 interface CodeAssistRequest {
   model: string;
@@ -72,34 +74,61 @@ interface GenerateContentResponse {
   }>;
 }
 
+export interface CodeAssistClientOptions {
+  baseURL?: string;
+  retryDelayMs?: number; // Initial delay for exponential backoff
+  maxRetries?: number; // Retries for 429s and network errors
+  pollingIntervalMs?: number; // Interval for onboarding operation polling
+  requestTimeoutMs?: number; // Per HTTP request; 0 disables
+}
+
+export interface GenerateContentOptions {
+  history?: ConversationTurn[];
+  signal?: AbortSignal; // Aborts the request, retries and onboarding
+}
+
+const DEFAULT_BASE_URL = "https://cloudcode-pa.googleapis.com";
+
 export class CodeAssistClient {
-  private baseURL = "https://cloudcode-pa.googleapis.com";
+  private baseURL: string;
+  private retryDelayMs: number;
+  private maxRetries: number;
+  private pollingIntervalMs: number;
+  private requestTimeout: number;
   private projectId: string | null = null;
   private auth: AuthConfig;
 
-  constructor(auth: AuthConfig) {
+  constructor(auth: AuthConfig, options: CodeAssistClientOptions = {}) {
     this.auth = auth;
+    this.baseURL = (
+      options.baseURL ||
+      process.env.CODE_ASSIST_ENDPOINT ||
+      DEFAULT_BASE_URL
+    ).replace(/\/+$/, "");
+    this.retryDelayMs = options.retryDelayMs ?? 4000; // Start with 4 seconds
+    this.maxRetries = options.maxRetries ?? 3;
+    this.pollingIntervalMs = options.pollingIntervalMs ?? 1000; // 1 second
+    this.requestTimeout =
+      options.requestTimeoutMs ??
+      Number.parseInt(process.env.GEMINI_REQUEST_TIMEOUT || "60000", 10);
   }
 
   async makeAuthenticatedRequest(
     url: string,
     body: unknown,
+    signal?: AbortSignal,
   ): Promise<Response> {
-    const headers = await this.auth.getHeaders();
+    const headers = await this.auth.getHeaders(signal);
 
-    const response = await fetch(url, {
+    return fetch(url, {
       method: "POST",
       headers,
       body: JSON.stringify(body),
+      signal: withTimeout(signal, this.requestTimeout),
     });
-
-    // Note: node-fetch doesn't support timeout in RequestInit
-    // In production, you'd use AbortController for timeout
-
-    return response;
   }
 
-  async ensureProjectId(): Promise<string> {
+  async ensureProjectId(signal?: AbortSignal): Promise<string> {
     if (this.projectId) {
       return this.projectId;
     }
@@ -109,6 +138,7 @@ export class CodeAssistClient {
     const loadResponse = await this.makeAuthenticatedRequest(
       `${this.baseURL}/v1internal:loadCodeAssist`,
       {},
+      signal,
     );
 
     if (!loadResponse.ok) {
@@ -145,6 +175,7 @@ export class CodeAssistClient {
     const onboardResponse = await this.makeAuthenticatedRequest(
       `${this.baseURL}/v1internal:onboardUser`,
       onboardBody,
+      signal,
     );
 
     if (!onboardResponse.ok) {
@@ -160,18 +191,18 @@ export class CodeAssistClient {
 
     // Poll for completion
     let operation = onboardData.operation;
-    const MAX_POLLING_RETRIES = 30; // 30 seconds max
-    const POLLING_INTERVAL_MS = 1000; // 1 second
+    const MAX_POLLING_RETRIES = 30; // 30 polls max
     let retries = 0;
 
     while (!operation.done && retries < MAX_POLLING_RETRIES) {
-      await new Promise((resolve) => setTimeout(resolve, POLLING_INTERVAL_MS));
+      await sleep(this.pollingIntervalMs, signal);
 
       // Get operation status
       const opUrl = `${this.baseURL}/${operation.name}`;
       const opResponse = await fetch(opUrl, {
         method: "GET",
-        headers: await this.auth.getHeaders(),
+        headers: await this.auth.getHeaders(signal),
+        signal: withTimeout(signal, this.requestTimeout),
       });
 
       if (!opResponse.ok) {
@@ -197,18 +228,21 @@ export class CodeAssistClient {
     return this.projectId;
   }
 
-  async generateContent(model: string, query: string): Promise<unknown> {
-    const projectId = await this.ensureProjectId();
+  async generateContent(
+    model: string,
+    query: string,
+    options: GenerateContentOptions = {},
+  ): Promise<unknown> {
+    const { history = [], signal } = options;
+    const projectId = await this.ensureProjectId(signal);
 
     const request: CodeAssistRequest = {
       model,
       request: {
-        contents: [
-          {
-            role: "user",
-            parts: [{ text: query }],
-          },
-        ],
+        contents: [...history, { role: "user", text: query }].map((turn) => ({
+          role: turn.role,
+          parts: [{ text: turn.text }],
+        })),
         tools: [
           {
             googleSearch: {},
@@ -219,22 +253,22 @@ export class CodeAssistClient {
     };
 
     // Retry configuration
-    const MAX_RETRIES = 3;
-    const INITIAL_DELAY_MS = 4000; // Start with 4 seconds
+    const INITIAL_DELAY_MS = this.retryDelayMs;
     const MAX_DELAY_MS = 60000; // Maximum 60 seconds
 
-    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
       try {
         const response = await this.makeAuthenticatedRequest(
           `${this.baseURL}/v1internal:generateContent`,
           request,
+          signal,
         );
 
         if (!response.ok) {
           const errorText = await response.text();
 
           // Retry on 429 error (rate limit)
-          if (response.status === 429 && attempt < MAX_RETRIES) {
+          if (response.status === 429 && attempt < this.maxRetries) {
             // Exponential backoff: 1s, 2s, 4s, ...
             const delay = Math.min(
               INITIAL_DELAY_MS * 2 ** attempt,
@@ -249,11 +283,11 @@ export class CodeAssistClient {
             }
 
             console.error(
-              `Rate limit hit (attempt ${attempt + 1}/${MAX_RETRIES + 1}). ` +
+              `Rate limit hit (attempt ${attempt + 1}/${this.maxRetries + 1}). ` +
                 `Retrying in ${delay / 1000} seconds...`,
             );
 
-            await new Promise((resolve) => setTimeout(resolve, delay));
+            await sleep(delay, signal);
             continue;
           }
 
@@ -267,8 +301,12 @@ export class CodeAssistClient {
         // Code Assist API wraps the response in a 'response' field
         return result.response || result;
       } catch (error) {
+        // Cancelled or timed out by the caller: stop retrying. A sleep aborted
+        // above also lands here.
+        signal?.throwIfAborted();
+
         // Throw error on final attempt
-        if (attempt === MAX_RETRIES) {
+        if (attempt === this.maxRetries) {
           throw error;
         }
 
@@ -276,11 +314,11 @@ export class CodeAssistClient {
         const delay = Math.min(INITIAL_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
 
         console.error(
-          `Request failed (attempt ${attempt + 1}/${MAX_RETRIES + 1}): ${error}. ` +
+          `Request failed (attempt ${attempt + 1}/${this.maxRetries + 1}): ${error}. ` +
             `Retrying in ${delay / 1000} seconds...`,
         );
 
-        await new Promise((resolve) => setTimeout(resolve, delay));
+        await sleep(delay, signal);
       }
     }
 
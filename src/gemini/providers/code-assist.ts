@@ -0,0 +1,44 @@
+import type { AuthConfig } from "../../auth/config";
+import type { GeminiOAuthResponse } from "../../types/gemini";
+import {
+  CodeAssistClient,
+  type CodeAssistClientOptions,
+} from "../code-assist-client";
+import type { ProviderRequestOptions, SearchProvider } from "./types";
+
+// Provider for OAuth auth through the Code Assist API
+export class CodeAssistProvider implements SearchProvider {
+  readonly name = "Code Assist API";
+  private client: CodeAssistClient;
+
+  constructor(auth: AuthConfig, options: CodeAssistClientOptions = {}) {
+    this.client = new CodeAssistClient(auth, options);
+  }
+
+  async search(
+    query: string,
+    model: string,
+    options: ProviderRequestOptions = {},
+  ): Promise<GeminiOAuthResponse> {
+    // Response from Code Assist API may have nested structure
+    return (await this.client.generateContent(
+      model,
+      query,
+      options,
+    )) as GeminiOAuthResponse;
+  }
+
+  async generate(
+    prompt: string,
+    model: string,
+    options: Pick<ProviderRequestOptions, "signal"> = {},
+  ): Promise<GeminiOAuthResponse> {
+    // Code Assist has no separate ungrounded endpoint; summaries go through
+    // the same generateContent call
+    return (await this.client.generateContent(
+      model,
+      prompt,
+      options,
+    )) as GeminiOAuthResponse;
+  }
+}
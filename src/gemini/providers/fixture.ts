@@ -0,0 +1,127 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { GeminiOAuthResponse } from "../../types/gemini";
+import type { ProviderRequestOptions, SearchProvider } from "./types";
+
+type FixtureKind = "search" | "generate";
+
+// Freshness operators carry dates that move with the current day
+const DATE_OPERATOR = /\b(after|before):\d{4}-\d{2}-\d{2}\b/g;
+
+/**
+ * Fixture file path for a query or prompt: <dir>/<kind>/<slug>-<hash>.json.
+ * The slug keeps files readable; the hash tells apart inputs with the same
+ * slug (e.g. "C++ vs C#" and "c vs c", or prompts embedding whole pages).
+ * Dates in after:/before: operators are left out of the hash, so searches
+ * steered to "the past week" match their fixture on any day.
+ */
+export function fixturePath(
+  directory: string,
+  kind: FixtureKind,
+  input: string,
+): string {
+  // Steering operators follow the query after a blank line
+  const slug =
+    input
+      .split("\n")[0]
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 80) || "empty";
+  const hash = createHash("sha256")
+    .update(input.replace(DATE_OPERATOR, "$1:<date>"))
+    .digest("hex")
+    .slice(0, 12);
+  return join(directory, kind, `${slug}-${hash}.json`);
+}
+
+// Offline provider that serves recorded GeminiOAuthResponse JSON files
+export class FixtureProvider implements SearchProvider {
+  readonly name = "fixtures";
+
+  constructor(private readonly directory: string) {}
+
+  // Fixtures are keyed by the latest query only; earlier turns are ignored
+  async search(
+    query: string,
+    _model: string,
+    _options?: ProviderRequestOptions,
+  ): Promise<GeminiOAuthResponse> {
+    return this._load("search", query);
+  }
+
+  async generate(prompt: string, _model: string): Promise<GeminiOAuthResponse> {
+    return this._load("generate", prompt);
+  }
+
+  private async _load(
+    kind: FixtureKind,
+    input: string,
+  ): Promise<GeminiOAuthResponse> {
+    const candidates = [
+      fixturePath(this.directory, kind, input),
+      join(this.directory, kind, "default.json"),
+    ];
+
+    for (const path of candidates) {
+      try {
+        return JSON.parse(await readFile(path, "utf-8")) as GeminiOAuthResponse;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw new Error(
+            `Invalid fixture ${path}: ${(error as Error).message}`,
+          );
+        }
+      }
+    }
+
+    throw new Error(`No ${kind} fixture found at ${candidates[0]}`);
+  }
+}
+
+// Wraps another provider and writes every response as a fixture
+export class RecordingProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly provider: SearchProvider,
+    private readonly directory: string,
+  ) {
+    this.name = provider.name;
+  }
+
+  async search(
+    query: string,
+    model: string,
+    options?: ProviderRequestOptions,
+  ): Promise<GeminiOAuthResponse> {
+    const response = await this.provider.search(query, model, options);
+    await this._record("search", query, response);
+    return response;
+  }
+
+  async generate(
+    prompt: string,
+    model: string,
+    options?: Pick<ProviderRequestOptions, "signal">,
+  ): Promise<GeminiOAuthResponse> {
+    const response = await this.provider.generate(prompt, model, options);
+    await this._record("generate", prompt, response);
+    return response;
+  }
+
+  private async _record(
+    kind: FixtureKind,
+    input: string,
+    response: GeminiOAuthResponse,
+  ): Promise<void> {
+    const path = fixturePath(this.directory, kind, input);
+    try {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, JSON.stringify(response, null, 2));
+    } catch (error) {
+      console.error(`Failed to record fixture ${path}:`, error);
+    }
+  }
+}
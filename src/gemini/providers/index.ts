@@ -0,0 +1,88 @@
+import { basename } from "node:path";
+import { AuthConfig } from "../../auth/config";
+import { CodeAssistProvider } from "./code-assist";
+import { FixtureProvider, RecordingProvider } from "./fixture";
+import { CredentialPool, type PooledCredential } from "./pool";
+import { SdkProvider } from "./sdk";
+import type { SearchProvider } from "./types";
+import { VertexProvider } from "./vertex";
+
+export type { SearchProvider } from "./types";
+
+/**
+ * Create the provider selected by the environment:
+ * GEMINI_PROVIDER=fixture serves GEMINI_FIXTURES_DIR without credentials,
+ * GEMINI_API_KEYS / GEMINI_OAUTH_CREDS_FILES set up a credential pool,
+ * otherwise the auth method decides between the SDK, Code Assist and
+ * Vertex AI.
+ * GEMINI_RECORD_FIXTURES=<dir> records every live response as a fixture.
+ */
+export function createProvider(): SearchProvider {
+  if (process.env.GEMINI_PROVIDER === "fixture") {
+    if (!process.env.GEMINI_FIXTURES_DIR) {
+      throw new Error(
+        "GEMINI_FIXTURES_DIR must be set when GEMINI_PROVIDER=fixture",
+      );
+    }
+    return new FixtureProvider(process.env.GEMINI_FIXTURES_DIR);
+  }
+
+  let provider: SearchProvider;
+  if (process.env.GEMINI_API_KEYS || process.env.GEMINI_OAUTH_CREDS_FILES) {
+    provider = new CredentialPool(pooledCredentials());
+  } else {
+    const auth = new AuthConfig();
+    if (auth.isApiKey()) {
+      provider = new SdkProvider(auth.getApiKey());
+    } else if (auth.isVertexAI()) {
+      provider = new VertexProvider(auth, { maxRetries: 0 });
+    } else {
+      provider = new CodeAssistProvider(auth, { maxRetries: 0 });
+    }
+  }
+
+  if (process.env.GEMINI_RECORD_FIXTURES) {
+    return new RecordingProvider(provider, process.env.GEMINI_RECORD_FIXTURES);
+  }
+
+  return provider;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// API keys first (GEMINI_API_KEY, then GEMINI_API_KEYS), then OAuth files
+function pooledCredentials(): PooledCredential[] {
+  const apiKeys = [
+    ...new Set([
+      ...splitList(process.env.GEMINI_API_KEY),
+      ...splitList(process.env.GEMINI_API_KEYS),
+    ]),
+  ];
+  const oauthFiles = [
+    ...new Set(splitList(process.env.GEMINI_OAUTH_CREDS_FILES)),
+  ];
+
+  const credentials: PooledCredential[] = apiKeys.map((apiKey, index) => ({
+    label: `api-key-${index + 1}`,
+    provider: new SdkProvider(apiKey),
+  }));
+
+  for (const path of oauthFiles) {
+    credentials.push({
+      label: `oauth:${basename(path)}`,
+      // The pool rotates on 429s and the scheduler retries, so the client
+      // must not retry itself
+      provider: new CodeAssistProvider(
+        new AuthConfig({ oauthCredentialsPath: path }),
+        { maxRetries: 0 },
+      ),
+    });
+  }
+
+  return credentials;
+}
@@ -0,0 +1,111 @@
+import type { GeminiOAuthResponse } from "../../types/gemini";
+import { isRateLimitError } from "../../utils/scheduler";
+import type { ProviderRequestOptions, SearchProvider } from "./types";
+
+export interface PooledCredential {
+  label: string; // Shown in results and logs; never the secret itself
+  provider: SearchProvider;
+}
+
+interface PoolEntry extends PooledCredential {
+  cooldownUntil: number;
+}
+
+/**
+ * Spreads requests over several credentials. Requests stick to the current
+ * credential until it hits its quota; it then cools down for
+ * CREDENTIAL_COOLDOWN seconds and the next available one takes over.
+ * Responses carry the label of the credential that served them.
+ */
+export class CredentialPool implements SearchProvider {
+  readonly name: string;
+  private entries: PoolEntry[];
+  private current = 0;
+  private cooldown: number;
+
+  constructor(
+    credentials: PooledCredential[],
+    options: { cooldown?: number } = {},
+  ) {
+    if (credentials.length === 0) {
+      throw new Error("Credential pool needs at least one credential");
+    }
+
+    this.entries = credentials.map((credential) => ({
+      ...credential,
+      cooldownUntil: 0,
+    }));
+    this.name = `credential pool (${credentials.length} credentials)`;
+    this.cooldown =
+      options.cooldown ??
+      Number.parseInt(process.env.CREDENTIAL_COOLDOWN || "60", 10) * 1000;
+  }
+
+  async search(
+    query: string,
+    model: string,
+    options?: ProviderRequestOptions,
+  ): Promise<GeminiOAuthResponse> {
+    return this._run((provider) => provider.search(query, model, options));
+  }
+
+  async generate(
+    prompt: string,
+    model: string,
+    options?: Pick<ProviderRequestOptions, "signal">,
+  ): Promise<GeminiOAuthResponse> {
+    return this._run((provider) => provider.generate(prompt, model, options));
+  }
+
+  private async _run(
+    call: (provider: SearchProvider) => Promise<GeminiOAuthResponse>,
+  ): Promise<GeminiOAuthResponse> {
+    let lastError: unknown;
+
+    for (let tried = 0; tried < this.entries.length; tried++) {
+      const entry = this._nextAvailable();
+      if (!entry) {
+        break;
+      }
+
+      try {
+        const response = await call(entry.provider);
+        return { ...response, credential: entry.label };
+      } catch (error) {
+        if (!isRateLimitError(error)) {
+          throw error;
+        }
+
+        lastError = error;
+        entry.cooldownUntil = Date.now() + this.cooldown;
+        console.error(
+          `Credential ${entry.label} hit its quota; cooling down for ${this.cooldown / 1000} seconds`,
+        );
+      }
+    }
+
+    // Keep the 429 in the message so callers still detect rate limiting
+    const retryIn = Math.min(
+      ...this.entries.map((entry) => entry.cooldownUntil - Date.now()),
+    );
+    const reason =
+      lastError instanceof Error ? lastError.message : "429 RESOURCE_EXHAUSTED";
+    throw new Error(
+      `All ${this.entries.length} credentials are rate limited ` +
+        `(next available in ${Math.ceil(Math.max(retryIn, 0) / 1000)} seconds): ${reason}`,
+    );
+  }
+
+  // The current credential if it is available, otherwise the next one that is
+  private _nextAvailable(): PoolEntry | undefined {
+    const now = Date.now();
+    for (let offset = 0; offset < this.entries.length; offset++) {
+      const index = (this.current + offset) % this.entries.length;
+      if (this.entries[index].cooldownUntil <= now) {
+        this.current = index;
+        return this.entries[index];
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  type Content,
+  type GenerativeModel,
+  GoogleGenerativeAI,
+  type GoogleSearchRetrievalTool,
+} from "@google/generative-ai";
+import type { GeminiOAuthResponse } from "../../types/gemini";
+import type { ProviderRequestOptions, SearchProvider } from "./types";
+
+// Provider for API key auth through the @google/generative-ai SDK
+export class SdkProvider implements SearchProvider {
+  readonly name = "Gemini API";
+  private genAI: GoogleGenerativeAI;
+  private models = new Map<string, GenerativeModel>();
+  private requestTimeout: number;
+
+  constructor(apiKey: string, options: { requestTimeoutMs?: number } = {}) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.requestTimeout =
+      options.requestTimeoutMs ??
+      Number.parseInt(process.env.GEMINI_REQUEST_TIMEOUT || "60000", 10);
+  }
+
+  async search(
+    query: string,
+    model: string,
+    options: ProviderRequestOptions = {},
+  ): Promise<GeminiOAuthResponse> {
+    const contents: Content[] = [
+      ...(options.history ?? []),
+      { role: "user", text: query },
+    ].map((turn) => ({ role: turn.role, parts: [{ text: turn.text }] }));
+    const result = await this._getModel(model).generateContent(
+      { contents },
+      { signal: options.signal, timeout: this.requestTimeout },
+    );
+    return result.response as GeminiOAuthResponse;
+  }
+
+  async generate(
+    prompt: string,
+    model: string,
+    options: Pick<ProviderRequestOptions, "signal"> = {},
+  ): Promise<GeminiOAuthResponse> {
+    const result = await this._getModel(model).generateContent(prompt, {
+      signal: options.signal,
+      timeout: this.requestTimeout,
+    });
+    return result.response as GeminiOAuthResponse;
+  }
+
+  // One GenerativeModel per model name, created on first use
+  private _getModel(modelName: string): GenerativeModel {
+    let model = this.models.get(modelName);
+    if (!model) {
+      const searchTool: GoogleSearchRetrievalTool = {
+        googleSearchRetrieval: {},
+      };
+      model = this.genAI.getGenerativeModel({
+        model: modelName,
+        tools: [searchTool],
+      });
+      this.models.set(modelName, model);
+    }
+
+    return model;
+  }
+}
@@ -0,0 +1,25 @@
+import type { ConversationTurn, GeminiOAuthResponse } from "../../types/gemini";
+
+export interface ProviderRequestOptions {
+  history?: ConversationTurn[]; // Earlier turns of a follow-up conversation, oldest first
+  signal?: AbortSignal; // Aborts in-flight requests and retries
+}
+
+/**
+ * A backend that can run grounded searches and plain generations.
+ * Implementations return the raw response JSON; GeminiClient handles
+ * citations, search results and formatting the same way for all of them.
+ */
+export interface SearchProvider {
+  readonly name: string;
+  search(
+    query: string,
+    model: string,
+    options?: ProviderRequestOptions,
+  ): Promise<GeminiOAuthResponse>;
+  generate(
+    prompt: string,
+    model: string,
+    options?: Pick<ProviderRequestOptions, "signal">,
+  ): Promise<GeminiOAuthResponse>;
+}
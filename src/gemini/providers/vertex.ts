@@ -0,0 +1,34 @@
+import type { AuthConfig } from "../../auth/config";
+import type { GeminiOAuthResponse } from "../../types/gemini";
+import { VertexAIClient, type VertexAIClientOptions } from "../vertex-client";
+import type { ProviderRequestOptions, SearchProvider } from "./types";
+
+// Provider for Vertex AI with Application Default Credentials
+export class VertexProvider implements SearchProvider {
+  readonly name = "Vertex AI";
+  private client: VertexAIClient;
+
+  constructor(auth: AuthConfig, options: VertexAIClientOptions = {}) {
+    this.client = new VertexAIClient(auth, options);
+  }
+
+  async search(
+    query: string,
+    model: string,
+    options: ProviderRequestOptions = {},
+  ): Promise<GeminiOAuthResponse> {
+    return this.client.generateContent(model, query, options);
+  }
+
+  // Summaries don't need grounding, so the search tool is left off
+  async generate(
+    prompt: string,
+    model: string,
+    options: Pick<ProviderRequestOptions, "signal"> = {},
+  ): Promise<GeminiOAuthResponse> {
+    return this.client.generateContent(model, prompt, {
+      ...options,
+      grounded: false,
+    });
+  }
+}
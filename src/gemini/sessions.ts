@@ -0,0 +1,103 @@
+import type { ConversationTurn } from "../types/gemini";
+
+interface Session {
+  turns: ConversationTurn[];
+  lastUsed: number;
+}
+
+export interface SessionStoreOptions {
+  ttl?: number; // Milliseconds of inactivity before a session is dropped
+  maxTurns?: number; // Question/answer pairs kept per session
+  maxSessions?: number;
+}
+
+/**
+ * In-memory conversation history for follow-up searches, keyed by a
+ * client-chosen session ID. Only the newest maxTurns exchanges are kept;
+ * idle sessions expire after the TTL and the least recently used session is
+ * dropped when maxSessions is reached.
+ */
+export class SessionStore {
+  private sessions = new Map<string, Session>();
+  private ttl: number;
+  private maxTurns: number;
+  private maxSessions: number;
+
+  constructor(options: SessionStoreOptions = {}) {
+    this.ttl =
+      options.ttl ??
+      Number.parseInt(process.env.SESSION_TTL || "1800", 10) * 1000;
+    this.maxTurns =
+      options.maxTurns ??
+      Number.parseInt(process.env.SESSION_MAX_TURNS || "10", 10);
+    this.maxSessions =
+      options.maxSessions ??
+      Number.parseInt(process.env.SESSION_MAX_COUNT || "1000", 10);
+  }
+
+  // Prior turns of a session, oldest first (empty for unknown sessions)
+  history(sessionId: string): ConversationTurn[] {
+    const session = this._get(sessionId);
+    return session ? [...session.turns] : [];
+  }
+
+  /**
+   * Record a question and the model's answer.
+   * Returns the number of exchanges now held for the session.
+   */
+  append(sessionId: string, question: string, answer: string): number {
+    const session = this._get(sessionId) || { turns: [], lastUsed: 0 };
+    session.turns.push(
+      { role: "user", text: question },
+      { role: "model", text: answer },
+    );
+
+    const maxLength = Math.max(this.maxTurns, 0) * 2;
+    if (session.turns.length > maxLength) {
+      session.turns.splice(0, session.turns.length - maxLength);
+    }
+    session.lastUsed = Date.now();
+
+    // Re-insert so Map order reflects recency
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, session);
+    this._evict();
+
+    return session.turns.length / 2;
+  }
+
+  reset(sessionId: string): boolean {
+    return this.sessions.delete(sessionId);
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  private _get(sessionId: string): Session | undefined {
+    const session = this.sessions.get(sessionId);
+    if (session && Date.now() - session.lastUsed > this.ttl) {
+      this.sessions.delete(sessionId);
+      return undefined;
+    }
+    return session;
+  }
+
+  private _evict(): void {
+    const now = Date.now();
+    for (const [sessionId, session] of this.sessions) {
+      if (now - session.lastUsed > this.ttl) {
+        this.sessions.delete(sessionId);
+      }
+    }
+
+    // Map iteration order is insertion order, so the first key is the LRU one
+    while (this.sessions.size > this.maxSessions) {
+      const oldest = this.sessions.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.sessions.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import type { AuthConfig } from "../auth/config";
+import type { ConversationTurn, GeminiOAuthResponse } from "../types/gemini";
+import { sleep, withTimeout } from "../utils/abort";
+
+interface VertexRequest {
+  contents: Array<{
+    role: string;
+    parts: Array<{
+      text: string;
+    }>;
+  }>;
+  tools?: Array<{
+    googleSearch: Record<string, never>;
+  }>;
+}
+
+export interface VertexAIClientOptions {
+  baseURL?: string;
+  retryDelayMs?: number; // Initial delay for exponential backoff
+  maxRetries?: number; // Retries for 429s
+  requestTimeoutMs?: number; // Per HTTP request; 0 disables
+}
+
+export interface VertexGenerateOptions {
+  history?: ConversationTurn[];
+  grounded?: boolean; // Enable the googleSearch tool (default true)
+  signal?: AbortSignal; // Aborts the request and retries
+}
+
+const MAX_DELAY_MS = 60000;
+
+// Regional endpoint, or the global one for location "global"
+function defaultBaseURL(location: string): string {
+  return location === "global"
+    ? "https://aiplatform.googleapis.com"
+    : `https://${location}-aiplatform.googleapis.com`;
+}
+
+/**
+ * Client for the Vertex AI generateContent endpoint, authenticated with
+ * Application Default Credentials through AuthConfig
+ */
+export class VertexAIClient {
+  private auth: AuthConfig;
+  private location: string;
+  private baseURL: string;
+  private retryDelayMs: number;
+  private maxRetries: number;
+  private requestTimeout: number;
+
+  constructor(auth: AuthConfig, options: VertexAIClientOptions = {}) {
+    this.auth = auth;
+    this.location = auth.getVertexLocation();
+    this.baseURL = (
+      options.baseURL ||
+      process.env.VERTEX_AI_ENDPOINT ||
+      defaultBaseURL(this.location)
+    ).replace(/\/+$/, "");
+    this.retryDelayMs = options.retryDelayMs ?? 4000;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.requestTimeout =
+      options.requestTimeoutMs ??
+      Number.parseInt(process.env.GEMINI_REQUEST_TIMEOUT || "60000", 10);
+  }
+
+  /**
+   * Generate content for the query after the earlier turns.
+   * Unless grounded is false, the googleSearch tool is enabled.
+   */
+  async generateContent(
+    model: string,
+    query: string,
+    options: VertexGenerateOptions = {},
+  ): Promise<GeminiOAuthResponse> {
+    const { history = [], grounded = true, signal } = options;
+    const project = await this.auth.getVertexProject();
+    const url = `${this.baseURL}/v1/projects/${project}/locations/${this.location}/publishers/google/models/${model}:generateContent`;
+
+    const request: VertexRequest = {
+      contents: [...history, { role: "user", text: query }].map((turn) => ({
+        role: turn.role,
+        parts: [{ text: turn.text }],
+      })),
+    };
+    if (grounded) {
+      request.tools = [{ googleSearch: {} }];
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: await this.auth.getHeaders(signal),
+        body: JSON.stringify(request),
+        signal: withTimeout(signal, this.requestTimeout),
+      });
+
+      if (response.ok) {
+        return (await response.json()) as GeminiOAuthResponse;
+      }
+
+      const errorText = await response.text();
+
+      // Retry on 429 error (rate limit) with exponential backoff
+      if (response.status === 429 && attempt < this.maxRetries) {
+        const delay = Math.min(this.retryDelayMs * 2 ** attempt, MAX_DELAY_MS);
+        console.error(
+          `Rate limit hit (attempt ${attempt + 1}/${this.maxRetries + 1}). ` +
+            `Retrying in ${delay / 1000} seconds...`,
+        );
+        await sleep(delay, signal);
+        continue;
+      }
+
+      throw new Error(`Vertex AI error: ${response.status} - ${errorText}`);
+    }
+  }
+}
@@ -1,37 +1,71 @@
 #!/usr/bin/env node
-import "dotenv/config";
-import { readFileSync } from "node:fs";
-import { join } from "node:path";
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  CallToolRequestSchema,
-  ErrorCode,
-  ListToolsRequestSchema,
-  McpError,
-} from "@modelcontextprotocol/sdk/types.js";
+import dotenv from "dotenv";
 import { GeminiClient } from "./gemini/client";
-import type { BatchSearchResponse, SearchResult } from "./types/index";
+import { createServer } from "./server";
+import { startHttpServer } from "./transports/http";
+
+// stdout carries the stdio transport, so dotenv must not log there
+dotenv.config({ quiet: true });
+
+type TransportMode = "stdio" | "http";
+
+interface ServerOptions {
+  transport: TransportMode;
+  host: string;
+  port: number;
+  authToken?: string;
+  sessionIdleTimeout: number;
+  allowedHosts: string[];
+  allowedOrigins: string[];
+}
+
+// Parse --transport/--host/--port flags, falling back to environment variables
+function parseOptions(args: string[]): ServerOptions {
+  const flags = new Map<string, string>();
+  for (const arg of args) {
+    const match = arg.match(/^--([\w-]+)=(.*)$/);
+    if (match) {
+      flags.set(match[1], match[2]);
+    } else if (arg === "--http") {
+      flags.set("transport", "http");
+    }
+  }
 
-// Get package.json version
-const packageJson = JSON.parse(
-  readFileSync(join(__dirname, "..", "package.json"), "utf-8"),
-);
+  const transport = flags.get("transport") || process.env.MCP_TRANSPORT;
+  if (transport && transport !== "stdio" && transport !== "http") {
+    throw new Error(`Unknown transport "${transport}". Use "stdio" or "http"`);
+  }
 
-// Initialize server
-const server = new Server(
-  {
-    name: "gemini-grounding",
-    vendor: "gemini-grounding-mcp",
-    version: packageJson.version,
-    description: packageJson.description,
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  },
-);
+  const port = Number.parseInt(
+    flags.get("port") || process.env.MCP_PORT || "3000",
+    10,
+  );
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(
+      `Invalid port: ${flags.get("port") || process.env.MCP_PORT}`,
+    );
+  }
+
+  return {
+    transport: (transport as TransportMode | undefined) || "stdio",
+    host: flags.get("host") || process.env.MCP_HOST || "127.0.0.1",
+    port,
+    authToken: process.env.MCP_AUTH_TOKEN || undefined,
+    sessionIdleTimeout:
+      Number.parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT || "1800", 10) *
+      1000,
+    allowedHosts: splitList(process.env.MCP_ALLOWED_HOSTS),
+    allowedOrigins: splitList(process.env.MCP_ALLOWED_ORIGINS),
+  };
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
 
 // Initialize Gemini client
 let geminiClient: GeminiClient;
@@ -43,267 +77,30 @@ try {
   process.exit(1);
 }
 
-// Define tools
-const TOOLS = [
-  {
-    name: "google_search",
-    description:
-      "Uses Google Search via Gemini AI grounding to find information and provide synthesized answers with citations. Returns AI-generated summaries rather than raw search results.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description: "The search query to find information on the web",
-        },
-        includeSearchResults: {
-          type: "boolean",
-          description: "Include raw search results in addition to AI summary",
-          default: false,
-        },
-        maxResults: {
-          type: "number",
-          description: "Maximum number of search results to return",
-          default: 5,
-        },
-      },
-      required: ["query"],
-    },
-  },
-  {
-    name: "google_search_batch",
-    description:
-      "Search multiple queries in parallel and optionally scrape content from results. Processes up to 10 queries simultaneously for comprehensive research.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        queries: {
-          type: "array",
-          items: {
-            type: "string",
-          },
-          description: "Array of search queries (max 10)",
-          minItems: 1,
-          maxItems: 10,
-        },
-        scrapeContent: {
-          type: "boolean",
-          description: "Whether to scrape full content from search result URLs",
-          default: true,
-        },
-        contentMode: {
-          type: "string",
-          enum: ["excerpt", "summary", "full"],
-          description:
-            "Content extraction mode: excerpt (AI summary ~1000 chars), summary (AI summary ~3000 chars), or full",
-          default: "full",
-        },
-        maxContentLength: {
-          type: "number",
-          description: "Maximum content length for full mode (default: 10000)",
-          default: 10000,
-        },
-      },
-      required: ["queries"],
-    },
-  },
-];
-
-// Handle list tools request
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: TOOLS,
-  };
-});
-
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case "google_search": {
-        if (!args?.query || typeof args.query !== "string") {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            "Query parameter is required and must be a string",
-          );
-        }
-
-        const result = await geminiClient.searchWithOptions(args.query, {
-          includeSearchResults: args.includeSearchResults as
-            | boolean
-            | undefined,
-          maxResults: args.maxResults as number | undefined,
-        });
-
-        if ("error" in result && result.error) {
-          throw new McpError(ErrorCode.InternalError, result.message);
-        }
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: formatSearchResult(result as SearchResult),
-            },
-          ],
-        };
-      }
-
-      case "google_search_batch": {
-        if (!args?.queries || !Array.isArray(args.queries)) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            "Queries parameter is required and must be an array",
-          );
-        }
-
-        if (args.queries.length === 0 || args.queries.length > 10) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            "Queries array must contain between 1 and 10 items",
-          );
-        }
-
-        const scrapeContent = args.scrapeContent !== false;
-        const result = await geminiClient.batchSearch(args.queries, {
-          scrapeContent,
-          contentMode: args.contentMode as
-            | "excerpt"
-            | "summary"
-            | "full"
-            | undefined,
-          maxContentLength: args.maxContentLength as number | undefined,
-        });
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: formatBatchSearchResult(result),
-            },
-          ],
-        };
-      }
-
-      default:
-        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-    }
-  } catch (error) {
-    if (error instanceof McpError) {
-      throw error;
-    }
+// Start the server
+async function main() {
+  const options = parseOptions(process.argv.slice(2));
 
-    console.error(`Error in tool ${name}:`, error);
-    throw new McpError(
-      ErrorCode.InternalError,
-      error instanceof Error ? error.message : "An unknown error occurred",
+  if (options.transport === "http") {
+    const httpServer = await startHttpServer(
+      () => createServer(geminiClient),
+      options,
     );
-  }
-});
-
-// Format search result for display
-function formatSearchResult(result: SearchResult): string {
-  let output = `Query: "${result.query}"\n\n`;
-  output += `${result.summary}\n`;
 
-  if (result.citations && result.citations.length > 0) {
-    output += "\nCitations:\n";
-    for (const citation of result.citations) {
-      output += `[${citation.number}] ${citation.title}\n    ${citation.url}\n`;
-    }
-  }
-
-  return output;
-}
+    const shutdown = () => {
+      httpServer.close().then(() => process.exit(0));
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
 
-// Format batch search result for display
-function formatBatchSearchResult(result: BatchSearchResponse): string {
-  let output = `# Batch Search Results (${result.totalQueries} ${result.totalQueries === 1 ? "query" : "queries"})\n\n`;
-  output += `${"=".repeat(50)}\n\n`;
-
-  let queryIndex = 0;
-  for (const queryResult of result.results) {
-    queryIndex++;
-    output += `## Query ${queryIndex}: "${queryResult.query}"\n\n`;
-
-    if (queryResult.error) {
-      output += `❌ **Error**: ${queryResult.error}\n\n`;
-      output += `${"-".repeat(50)}\n\n`;
-      continue;
-    }
-
-    // Summary with proper formatting
-    if (queryResult.summary) {
-      output += `### Summary\n\n${queryResult.summary}\n\n`;
-    }
-
-    // Citations
-    if (queryResult.citations && queryResult.citations.length > 0) {
-      output += `### Citations\n`;
-      for (const citation of queryResult.citations) {
-        output += `[${citation.number}] ${citation.title}\n    ${citation.url}\n`;
-      }
-      output += "\n";
-    }
-
-    // Search results with count indicator
-    if (queryResult.searchResults && queryResult.searchResults.length > 0) {
-      const resultCount =
-        queryResult.searchResultCount || queryResult.searchResults.length;
-      const targetCount = queryResult.targetResultCount || 5;
-      output += `### Search Results (${resultCount}/${targetCount})\n\n`;
-
-      for (const [idx, result] of queryResult.searchResults.entries()) {
-        output += `**${idx + 1}. ${result.title}**\n`;
-        output += `- URL: ${result.url}\n`;
-        if (result.snippet) {
-          output += `- Snippet: ${result.snippet}\n`;
-        }
-        output += "\n";
-      }
-    }
-
-    // Scraped content with better formatting
-    if (queryResult.scrapedContent && queryResult.scrapedContent.length > 0) {
-      output += `### Scraped Content\n\n`;
-
-      let successCount = 0;
-      let failureCount = 0;
-
-      for (const content of queryResult.scrapedContent) {
-        if (content.error) {
-          failureCount++;
-          output += `#### ❌ Failed: ${content.title}\n`;
-          output += `- URL: ${content.url}\n`;
-          output += `- Error: ${content.error}\n\n`;
-        } else {
-          successCount++;
-          output += `#### ✅ ${content.title}\n`;
-          output += `- URL: ${content.url}\n`;
-          if (content.content) {
-            const contentPreview = content.content.slice(0, 200);
-            output += `- Content Preview: ${contentPreview}${content.content.length > 200 ? "..." : ""}\n`;
-            output += `- Full Length: ${content.content.length} characters\n`;
-          }
-          output += "\n";
-        }
-      }
-
-      if (successCount > 0 || failureCount > 0) {
-        output += `📊 **Scraping Stats**: ${successCount} succeeded, ${failureCount} failed\n\n`;
-      }
-    }
-
-    output += `${"-".repeat(50)}\n\n`;
+    console.error(
+      `Gemini Grounding MCP server listening on http://${options.host}:${options.port} ` +
+        `(Streamable HTTP: /mcp, SSE: /sse)${options.authToken ? " with bearer token auth" : ""}`,
+    );
+    return;
   }
 
-  return output;
-}
-
-// Start the server
-async function main() {
+  const server = createServer(geminiClient);
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Gemini Grounding MCP server started");
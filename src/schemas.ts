@@ -0,0 +1,299 @@
+// JSON Schemas for tool structuredContent (MCP outputSchema)
+
+const citationSchema = {
+  type: "object",
+  properties: {
+    number: { type: "number" },
+    title: { type: "string" },
+    url: { type: "string" },
+    originalUrl: { type: "string" },
+    excerpt: { type: "string" },
+    context: { type: "string" },
+    verification: {
+      type: "object",
+      description: "Whether the source supports the claims citing it",
+      properties: {
+        status: {
+          type: "string",
+          enum: ["supported", "weak", "unsupported", "unverified"],
+        },
+        claims: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              claim: { type: "string" },
+              status: {
+                type: "string",
+                enum: ["supported", "weak", "unsupported", "unverified"],
+              },
+              score: { type: "number" },
+              method: { type: "string", enum: ["lexical", "model"] },
+              evidence: { type: "string" },
+            },
+            required: ["claim", "status", "score", "method"],
+          },
+        },
+        reason: { type: "string" },
+      },
+      required: ["status", "claims"],
+    },
+  },
+  required: ["number", "title", "url"],
+};
+
+const segmentSchema = {
+  type: "object",
+  properties: {
+    text: { type: "string" },
+    citationIds: { type: "array", items: { type: "number" } },
+    startIndex: { type: "number" },
+    endIndex: { type: "number" },
+  },
+  required: ["text", "citationIds", "startIndex", "endIndex"],
+};
+
+const excludedSourceSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    url: { type: "string" },
+    reason: { type: "string" },
+  },
+  required: ["title", "url", "reason"],
+};
+
+const searchResultDetailSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    url: { type: "string" },
+    originalUrl: { type: "string" },
+    snippet: { type: "string" },
+  },
+  required: ["title", "url", "snippet"],
+};
+
+const scrapedContentSchema = {
+  type: "object",
+  properties: {
+    url: { type: "string" },
+    title: { type: "string" },
+    content: { type: ["string", "null"] },
+    error: { type: "string" },
+    errorKind: {
+      type: "string",
+      enum: [
+        "robots-disallowed",
+        "robots-unavailable",
+        "domain-blocked",
+        "unsafe-url",
+        "too-many-redirects",
+        "too-large",
+        "unsupported-content-type",
+        "fetch-failed",
+      ],
+    },
+    scrapedAt: { type: "string" },
+    publishedAt: { type: "string" },
+    modifiedAt: { type: "string" },
+    stale: {
+      type: "boolean",
+      description: "Dated outside the requested freshness range",
+    },
+    summaryCoverage: {
+      type: "object",
+      description: "How much of the page made it into an AI excerpt or summary",
+      properties: {
+        chunks: { type: "number" },
+        summarizedChunks: { type: "number" },
+        droppedChunks: { type: "number" },
+        truncated: { type: "boolean" },
+      },
+      required: ["chunks", "summarizedChunks", "droppedChunks", "truncated"],
+    },
+    truncation: {
+      type: "object",
+      description:
+        "Set in full mode when maxContentLength cut the page off; raise it to get the rest",
+      properties: {
+        shownLength: { type: "number" },
+        totalLength: { type: "number" },
+      },
+      required: ["shownLength", "totalLength"],
+    },
+    quotes: {
+      type: "array",
+      description:
+        "Passages of the page most relevant to the summary or query, verbatim from its extracted Markdown",
+      items: {
+        type: "object",
+        properties: {
+          text: { type: "string" },
+          offset: {
+            type: "number",
+            description: "Character offset in the extracted Markdown",
+          },
+          line: { type: "number" },
+          section: {
+            type: "string",
+            description: "Nearest heading above the quote",
+          },
+        },
+        required: ["text", "offset", "line"],
+      },
+    },
+  },
+  required: ["url", "title", "content", "scrapedAt"],
+};
+
+const structuredSearchContentSchema = {
+  type: "object",
+  properties: {
+    query: { type: "string" },
+    summary: {
+      type: "string",
+      description: "Answer text with [n] citation markers",
+    },
+    segments: {
+      type: "array",
+      description: "Summary split into segments with their citation IDs",
+      items: segmentSchema,
+    },
+    sources: { type: "array", items: citationSchema },
+    citationMap: {
+      type: "object",
+      description: "Sources keyed by citation number",
+      additionalProperties: citationSchema,
+    },
+    searchResults: { type: "array", items: searchResultDetailSchema },
+    scrapedContent: { type: "array", items: scrapedContentSchema },
+    session: {
+      type: "object",
+      description: "Follow-up conversation this search belongs to",
+      properties: {
+        id: { type: "string" },
+        turn: { type: "number" },
+      },
+      required: ["id", "turn"],
+    },
+    excludedSources: {
+      type: "array",
+      description: "Sources removed by the domain filter",
+      items: excludedSourceSchema,
+    },
+    metadata: {
+      type: "object",
+      properties: {
+        searchResultCount: { type: "number" },
+        targetResultCount: { type: "number" },
+        processingTime: { type: "number" },
+        citationCount: { type: "number" },
+        credential: {
+          type: "string",
+          description: "Pooled credential that served the search",
+        },
+      },
+    },
+    error: { type: "string" },
+  },
+  required: ["query", "summary", "segments", "sources", "citationMap"],
+};
+
+export const SEARCH_OUTPUT_SCHEMA = structuredSearchContentSchema;
+
+const bibliographySchema = {
+  type: "array",
+  items: {
+    ...citationSchema,
+    properties: {
+      ...citationSchema.properties,
+      queries: { type: "array", items: { type: "string" } },
+    },
+    required: [...citationSchema.required, "queries"],
+  },
+};
+
+export const BATCH_SEARCH_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    totalQueries: { type: "number" },
+    results: { type: "array", items: structuredSearchContentSchema },
+    synthesis: {
+      type: "object",
+      description:
+        "One report over every query; its [n] markers and the results share one numbering of sources",
+      properties: {
+        report: { type: "string" },
+        sources: bibliographySchema,
+        contradictions: { type: "array", items: { type: "string" } },
+        error: { type: "string" },
+      },
+      required: ["report", "sources", "contradictions"],
+    },
+  },
+  required: ["totalQueries", "results"],
+};
+
+export const RESEARCH_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    question: { type: "string" },
+    report: {
+      type: "string",
+      description: "Markdown report whose [n] markers refer to sources",
+    },
+    sources: bibliographySchema,
+    contradictions: { type: "array", items: { type: "string" } },
+    openQuestions: {
+      type: "array",
+      items: { type: "string" },
+      description: "Follow-up queries left when the research stopped",
+    },
+    rounds: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          round: { type: "number" },
+          queries: { type: "array", items: { type: "string" } },
+          followUps: { type: "array", items: { type: "string" } },
+        },
+        required: ["round", "queries", "followUps"],
+      },
+    },
+    results: { type: "array", items: structuredSearchContentSchema },
+    stopReason: {
+      type: "string",
+      enum: [
+        "answered",
+        "max-rounds",
+        "max-queries",
+        "time-budget",
+        "planning-failed",
+      ],
+    },
+    elapsedMs: { type: "number" },
+    error: { type: "string" },
+  },
+  required: [
+    "question",
+    "report",
+    "sources",
+    "contradictions",
+    "openQuestions",
+    "rounds",
+    "results",
+    "stopReason",
+    "elapsedMs",
+  ],
+};
+
+export const SCRAPE_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    totalUrls: { type: "number" },
+    results: { type: "array", items: scrapedContentSchema },
+  },
+  required: ["totalUrls", "results"],
+};
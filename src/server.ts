@@ -0,0 +1,1121 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { GeminiClient } from "./gemini/client";
+import {
+  BATCH_SEARCH_OUTPUT_SCHEMA,
+  RESEARCH_OUTPUT_SCHEMA,
+  SCRAPE_OUTPUT_SCHEMA,
+  SEARCH_OUTPUT_SCHEMA,
+} from "./schemas";
+import type {
+  BatchSearchResponse,
+  BibliographyEntry,
+  CitationSupport,
+  DeepResearchResult,
+  EnhancedCitation,
+  ExcludedSource,
+  ScrapedContent,
+  ScrapeResponse,
+  SearchResult,
+  SynthesizedReport,
+  VerifyCitationsMode,
+} from "./types/index";
+import { withTimeout } from "./utils/abort";
+import {
+  createStructuredSearchResult,
+  toStructuredBatchContent,
+  toStructuredContent,
+  toStructuredResearchContent,
+} from "./utils/citation-parser";
+import {
+  type DomainFilterOptions,
+  isValidDomainPattern,
+} from "./utils/domain-filter";
+import {
+  type Freshness,
+  type FreshnessOptions,
+  isFreshnessPeriod,
+  isValidDate,
+} from "./utils/freshness";
+
+// Get package.json version
+const packageJson = JSON.parse(
+  readFileSync(join(__dirname, "..", "package.json"), "utf-8"),
+);
+
+// Domain filter arguments shared by every tool
+const DOMAIN_FILTER_PROPERTIES = {
+  includeDomains: {
+    type: "array",
+    items: { type: "string" },
+    description:
+      'Only use sources from these domains and their subdomains (e.g. "python.org", "developer.mozilla.org"). Applies on top of the server\'s INCLUDE_DOMAINS',
+    maxItems: 50,
+  },
+  excludeDomains: {
+    type: "array",
+    items: { type: "string" },
+    description:
+      "Never use sources from these domains and their subdomains. Added to the server's EXCLUDE_DOMAINS",
+    maxItems: 50,
+  },
+};
+
+// Citation check argument of the search tools
+const VERIFY_CITATIONS_PROPERTIES = {
+  verifyCitations: {
+    type: "string",
+    enum: ["off", "lexical", "model"],
+    description:
+      'Check each citation against the text of its source and label it supported, weak or unsupported. "lexical" compares the cited claim with the page\'s words; "model" also asks the summary model about claims the words don\'t clearly support. Fetches every cited page, so it takes longer',
+    default: "off",
+  },
+};
+
+// Date range argument shared by every tool
+const FRESHNESS_PROPERTIES = {
+  freshness: {
+    description:
+      'Prefer sources from a period: "day", "week", "month" or "year" back from today, or a {"from", "to"} range of YYYY-MM-DD dates. Shapes the search query; scraped pages dated outside the range are marked stale',
+    oneOf: [
+      { type: "string", enum: ["day", "week", "month", "year"] },
+      {
+        type: "object",
+        properties: {
+          from: { type: "string", format: "date" },
+          to: { type: "string", format: "date" },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+};
+
+// Define tools
+const TOOLS = [
+  {
+    name: "google_search",
+    description:
+      "Uses Google Search via Gemini AI grounding to find information and provide synthesized answers with citations. Returns AI-generated summaries rather than raw search results.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "The search query to find information on the web",
+        },
+        includeSearchResults: {
+          type: "boolean",
+          description: "Include raw search results in addition to AI summary",
+          default: false,
+        },
+        maxResults: {
+          type: "number",
+          description:
+            "Maximum number of search results to return when includeSearchResults is true",
+          default: 5,
+          minimum: 1,
+        },
+        model: {
+          type: "string",
+          description:
+            "Gemini model for grounded search (e.g. gemini-2.5-pro). Defaults to GEMINI_MODEL or gemini-2.5-flash",
+        },
+        sessionId: {
+          type: "string",
+          description:
+            "Conversation ID for follow-up questions. Earlier questions and answers with the same ID are sent as context; a new ID starts a new conversation",
+          pattern: "^[\\w.:-]{1,128}$",
+        },
+        resetSession: {
+          type: "boolean",
+          description:
+            "Clear the history of sessionId before running this query",
+          default: false,
+        },
+        ...VERIFY_CITATIONS_PROPERTIES,
+        ...DOMAIN_FILTER_PROPERTIES,
+        ...FRESHNESS_PROPERTIES,
+      },
+      required: ["query"],
+    },
+    outputSchema: SEARCH_OUTPUT_SCHEMA,
+  },
+  {
+    name: "google_search_batch",
+    description:
+      "Search multiple queries in parallel and optionally scrape content from results. Processes up to 10 queries simultaneously for comprehensive research.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        queries: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description: "Array of search queries (max 10)",
+          minItems: 1,
+          maxItems: 10,
+        },
+        scrapeContent: {
+          type: "boolean",
+          description: "Whether to scrape full content from search result URLs",
+          default: true,
+        },
+        contentMode: {
+          type: "string",
+          enum: ["excerpt", "summary", "full"],
+          description:
+            "Content extraction mode: excerpt (AI summary ~1000 chars), summary (AI summary ~3000 chars), or full",
+          default: "full",
+        },
+        maxContentLength: {
+          type: "number",
+          description:
+            "Maximum content length in characters for full mode (default: FULL_CONTENT_LENGTH or 100000); longer pages are cut off and report truncation",
+        },
+        model: {
+          type: "string",
+          description:
+            "Gemini model for grounded search (e.g. gemini-2.5-pro). Defaults to GEMINI_MODEL or gemini-2.5-flash",
+        },
+        summaryModel: {
+          type: "string",
+          description:
+            "Gemini model for excerpt/summary generation (e.g. gemini-2.5-flash-lite). Defaults to GEMINI_SUMMARY_MODEL",
+        },
+        sortByDate: {
+          type: "boolean",
+          description:
+            "Order each query's scraped pages newest first by their published or modified date; undated pages come last",
+          default: false,
+        },
+        synthesize: {
+          type: "boolean",
+          description:
+            "Merge the answers into one report with a single deduplicated bibliography and the contradictions between queries; the per-query results follow as an appendix, numbered like the bibliography",
+          default: false,
+        },
+        ...VERIFY_CITATIONS_PROPERTIES,
+        ...DOMAIN_FILTER_PROPERTIES,
+        ...FRESHNESS_PROPERTIES,
+      },
+      required: ["queries"],
+    },
+    outputSchema: BATCH_SEARCH_OUTPUT_SCHEMA,
+  },
+  {
+    name: "scrape_url",
+    description:
+      "Fetch one or more web pages or documents (HTML, PDF, text, Markdown, JSON, RSS/Atom) directly and return their readable content as Markdown. Use this when you already know the page you need and don't need a search.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        urls: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description: "Array of http(s) URLs to scrape (max 10)",
+          minItems: 1,
+          maxItems: 10,
+        },
+        contentMode: {
+          type: "string",
+          enum: ["excerpt", "summary", "full"],
+          description:
+            "Content extraction mode: excerpt (AI summary ~1000 chars), summary (AI summary ~5000 chars), or full",
+          default: "full",
+        },
+        maxContentLength: {
+          type: "number",
+          description:
+            "Maximum content length in characters for full mode (default: FULL_CONTENT_LENGTH or 100000); longer pages are cut off and report truncation",
+        },
+        summaryModel: {
+          type: "string",
+          description:
+            "Gemini model for excerpt/summary generation (e.g. gemini-2.5-flash-lite). Defaults to GEMINI_SUMMARY_MODEL",
+        },
+        query: {
+          type: "string",
+          description:
+            "Question to aim excerpts and summaries at; they then cover what each page says about it, with its most relevant quotes",
+        },
+        ...DOMAIN_FILTER_PROPERTIES,
+        ...FRESHNESS_PROPERTIES,
+      },
+      required: ["urls"],
+    },
+    outputSchema: SCRAPE_OUTPUT_SCHEMA,
+  },
+  {
+    name: "deep_research",
+    description:
+      "Research a question in several rounds: plans search queries, runs them with scraping, looks for gaps and open questions, searches follow-up queries and ends with a cited long-form report plus the research trail. Use this for open-ended questions that need more than one batch of searches.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        question: {
+          type: "string",
+          description: "The question to research",
+        },
+        maxRounds: {
+          type: "number",
+          description:
+            "Rounds of searches, counting the first (default: RESEARCH_MAX_ROUNDS or 3)",
+          minimum: 1,
+          maximum: 10,
+        },
+        maxQueries: {
+          type: "number",
+          description:
+            "Search queries over all rounds (default: RESEARCH_MAX_QUERIES or 12)",
+          minimum: 1,
+          maximum: 50,
+        },
+        timeBudget: {
+          type: "number",
+          description:
+            "Seconds for the whole research including the report (default: RESEARCH_TIME_BUDGET or 300). Searching stops at three quarters of it, keeping the answers that arrived; the call is still limited by TOOL_TIMEOUT",
+          minimum: 10,
+          maximum: 3600,
+        },
+        scrapeContent: {
+          type: "boolean",
+          description:
+            "Scrape the sources and use excerpts aimed at each query in the report",
+          default: true,
+        },
+        model: {
+          type: "string",
+          description:
+            "Gemini model for grounded search (e.g. gemini-2.5-pro). Defaults to GEMINI_MODEL or gemini-2.5-flash",
+        },
+        summaryModel: {
+          type: "string",
+          description:
+            "Gemini model for planning, excerpts and the report (e.g. gemini-2.5-pro). Defaults to GEMINI_SUMMARY_MODEL",
+        },
+        ...DOMAIN_FILTER_PROPERTIES,
+        ...FRESHNESS_PROPERTIES,
+      },
+      required: ["question"],
+    },
+    outputSchema: RESEARCH_OUTPUT_SCHEMA,
+  },
+];
+
+/**
+ * Create an MCP server with the Gemini tools registered.
+ * Every transport session gets its own Server; the GeminiClient is shared.
+ */
+export function createServer(geminiClient: GeminiClient): Server {
+  const server = new Server(
+    {
+      name: "gemini-grounding",
+      vendor: "gemini-grounding-mcp",
+      version: packageJson.version,
+      description: packageJson.description,
+    },
+    {
+      capabilities: {
+        tools: {},
+      },
+    },
+  );
+
+  // Handle list tools request
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: TOOLS,
+    };
+  });
+
+  // Every tool call stops when the client cancels it or after TOOL_TIMEOUT
+  // milliseconds (0 disables the limit)
+  const toolTimeout = Number.parseInt(process.env.TOOL_TIMEOUT || "600000", 10);
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const signal = withTimeout(extra.signal, toolTimeout);
+
+    // Report each stage of long tools when the client asked for progress
+    const progressToken = request.params._meta?.progressToken;
+    let progress = 0;
+    const onProgress =
+      progressToken === undefined
+        ? undefined
+        : (event: { message: string }) => {
+            extra
+              .sendNotification({
+                method: "notifications/progress",
+                params: {
+                  progressToken,
+                  progress: ++progress,
+                  message: event.message,
+                },
+              })
+              .catch((error) =>
+                console.error("Failed to send progress:", error),
+              );
+          };
+
+    try {
+      switch (name) {
+        case "google_search": {
+          if (!args?.query || typeof args.query !== "string") {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              "Query parameter is required and must be a string",
+            );
+          }
+
+          if (
+            args.maxResults !== undefined &&
+            (typeof args.maxResults !== "number" ||
+              !Number.isInteger(args.maxResults) ||
+              args.maxResults < 1)
+          ) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              "maxResults must be a positive integer",
+            );
+          }
+
+          const result = await geminiClient.searchWithOptions(args.query, {
+            includeSearchResults: args.includeSearchResults as
+              | boolean
+              | undefined,
+            maxResults: args.maxResults as number | undefined,
+            model: validateModelArg(args.model, "model"),
+            sessionId: validateSessionIdArg(args.sessionId),
+            // Over HTTP, clients only see their own follow-up sessions
+            sessionScope: extra.sessionId,
+            resetSession: args.resetSession === true,
+            verifyCitations: validateVerifyCitationsArg(args.verifyCitations),
+            ...validateDomainFilterArgs(args),
+            ...validateFreshnessArg(args.freshness),
+            signal,
+          });
+
+          if ("error" in result && result.error) {
+            throw new McpError(ErrorCode.InternalError, result.message);
+          }
+
+          const searchResult = result as SearchResult;
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: formatSearchResult(searchResult),
+              },
+            ],
+            structuredContent: toStructuredContent(
+              createStructuredSearchResult(searchResult),
+            ),
+          };
+        }
+
+        case "google_search_batch": {
+          if (!args?.queries || !Array.isArray(args.queries)) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              "Queries parameter is required and must be an array",
+            );
+          }
+
+          if (args.queries.length === 0 || args.queries.length > 10) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              "Queries array must contain between 1 and 10 items",
+            );
+          }
+
+          const scrapeContent = args.scrapeContent !== false;
+          const result = await geminiClient.batchSearch(args.queries, {
+            scrapeContent,
+            contentMode: args.contentMode as
+              | "excerpt"
+              | "summary"
+              | "full"
+              | undefined,
+            maxContentLength: validatePositiveIntegerArg(
+              args.maxContentLength,
+              "maxContentLength",
+            ),
+            model: validateModelArg(args.model, "model"),
+            summaryModel: validateModelArg(args.summaryModel, "summaryModel"),
+            sortByDate: args.sortByDate === true,
+            verifyCitations: validateVerifyCitationsArg(args.verifyCitations),
+            synthesize: args.synthesize === true,
+            ...validateDomainFilterArgs(args),
+            ...validateFreshnessArg(args.freshness),
+            signal,
+            onProgress,
+          });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: formatBatchSearchResult(result),
+              },
+            ],
+            structuredContent: toStructuredBatchContent(result),
+          };
+        }
+
+        case "deep_research": {
+          if (
+            !args?.question ||
+            typeof args.question !== "string" ||
+            !args.question.trim()
+          ) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              "Question parameter is required and must be a string",
+            );
+          }
+
+          const timeBudget = validateIntegerArg(
+            args.timeBudget,
+            "timeBudget",
+            10,
+            3600,
+          );
+          const result = await geminiClient.deepResearch(args.question.trim(), {
+            maxRounds: validateIntegerArg(args.maxRounds, "maxRounds", 1, 10),
+            maxQueries: validateIntegerArg(
+              args.maxQueries,
+              "maxQueries",
+              1,
+              50,
+            ),
+            timeBudget:
+              timeBudget === undefined ? undefined : timeBudget * 1000,
+            scrapeContent: args.scrapeContent !== false,
+            model: validateModelArg(args.model, "model"),
+            summaryModel: validateModelArg(args.summaryModel, "summaryModel"),
+            ...validateDomainFilterArgs(args),
+            ...validateFreshnessArg(args.freshness),
+            signal,
+            onProgress,
+          });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: formatResearchResult(result),
+              },
+            ],
+            structuredContent: toStructuredResearchContent(result),
+          };
+        }
+
+        case "scrape_url": {
+          if (!args?.urls || !Array.isArray(args.urls)) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              "URLs parameter is required and must be an array",
+            );
+          }
+
+          if (args.urls.length === 0 || args.urls.length > 10) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              "URLs array must contain between 1 and 10 items",
+            );
+          }
+
+          for (const url of args.urls) {
+            if (typeof url !== "string" || !/^https?:\/\//i.test(url)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                `Invalid URL: ${String(url)}. Only http(s) URLs are supported`,
+              );
+            }
+          }
+
+          const result = await geminiClient.scrapeUrls(args.urls as string[], {
+            contentMode: args.contentMode as
+              | "excerpt"
+              | "summary"
+              | "full"
+              | undefined,
+            maxContentLength: validatePositiveIntegerArg(
+              args.maxContentLength,
+              "maxContentLength",
+            ),
+            summaryModel: validateModelArg(args.summaryModel, "summaryModel"),
+            query: validateQueryArg(args.query),
+            ...validateDomainFilterArgs(args),
+            ...validateFreshnessArg(args.freshness),
+            signal,
+          });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: formatScrapeResult(result),
+              },
+            ],
+            structuredContent: result,
+          };
+        }
+
+        default:
+          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      // Cancelled calls get no response; only the timeout is reported
+      if (signal?.aborted && !extra.signal.aborted) {
+        throw new McpError(
+          ErrorCode.RequestTimeout,
+          `Tool ${name} timed out after ${toolTimeout / 1000} seconds`,
+        );
+      }
+
+      console.error(`Error in tool ${name}:`, error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        error instanceof Error ? error.message : "An unknown error occurred",
+      );
+    }
+  });
+
+  return server;
+}
+
+// Validate an optional model name argument
+function validateModelArg(value: unknown, name: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== "string" || !/^[\w.-]+$/.test(value)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${name} must be a model name such as "gemini-2.5-pro"`,
+    );
+  }
+
+  return value;
+}
+
+// Validate an optional whole number argument within [min, max]
+function validateIntegerArg(
+  value: unknown,
+  name: string,
+  min: number,
+  max: number,
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < min ||
+    value > max
+  ) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${name} must be a whole number from ${min} to ${max}`,
+    );
+  }
+
+  return value;
+}
+
+// Validate an optional argument that must be a whole number of at least 1
+function validatePositiveIntegerArg(
+  value: unknown,
+  name: string,
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${name} must be a positive integer`,
+    );
+  }
+
+  return value;
+}
+
+// Validate the optional verifyCitations mode; "off" means no check
+function validateVerifyCitationsArg(
+  value: unknown,
+): VerifyCitationsMode | undefined {
+  if (value === undefined || value === "off") {
+    return undefined;
+  }
+
+  if (value !== "lexical" && value !== "model") {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'verifyCitations must be "off", "lexical" or "model"',
+    );
+  }
+
+  return value;
+}
+
+// Validate the optional question scraped pages are summarized for
+function validateQueryArg(value: unknown): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== "string" || !value.trim()) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "query must be a non-empty string",
+    );
+  }
+
+  return value.trim();
+}
+
+// Validate an optional conversation session ID argument
+function validateSessionIdArg(value: unknown): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== "string" || !/^[\w.:-]{1,128}$/.test(value)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "sessionId must be 1-128 letters, digits or . _ : - characters",
+    );
+  }
+
+  return value;
+}
+
+// Validate the optional includeDomains/excludeDomains arguments
+function validateDomainFilterArgs(
+  args: Record<string, unknown>,
+): DomainFilterOptions {
+  const options: DomainFilterOptions = {};
+  for (const name of ["includeDomains", "excludeDomains"] as const) {
+    const value = args[name];
+    if (value === undefined) {
+      continue;
+    }
+
+    if (
+      !Array.isArray(value) ||
+      value.length > 50 ||
+      !value.every(
+        (domain) => typeof domain === "string" && isValidDomainPattern(domain),
+      )
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${name} must be an array of up to 50 domains such as "python.org" or "*.mozilla.org"`,
+      );
+    }
+    options[name] = value;
+  }
+  return options;
+}
+
+// Validate the optional freshness argument
+function validateFreshnessArg(value: unknown): FreshnessOptions {
+  if (value === undefined) {
+    return {};
+  }
+  if (isFreshnessPeriod(value)) {
+    return { freshness: value };
+  }
+
+  const range = value as { from?: unknown; to?: unknown } | null;
+  if (
+    range &&
+    typeof range === "object" &&
+    Object.keys(range).every((key) => key === "from" || key === "to") &&
+    (range.from !== undefined || range.to !== undefined) &&
+    (range.from === undefined || isValidDate(range.from)) &&
+    (range.to === undefined || isValidDate(range.to)) &&
+    !(range.from && range.to && range.from > range.to)
+  ) {
+    return { freshness: range as Freshness };
+  }
+
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    'freshness must be "day", "week", "month", "year" or a {"from", "to"} range of YYYY-MM-DD dates',
+  );
+}
+
+// Format search result for display
+function formatSearchResult(result: SearchResult): string {
+  let output = `Query: "${result.query}"\n`;
+  if (result.session) {
+    output += `Session: ${result.session.id} (turn ${result.session.turn})\n`;
+  }
+  if (result.credential) {
+    output += `Credential: ${result.credential}\n`;
+  }
+  output += `\n${result.summary}\n`;
+
+  if (result.citations && result.citations.length > 0) {
+    output += "\nCitations:\n";
+    for (const citation of result.citations) {
+      output += `[${citation.number}] ${citation.title}\n    ${citation.url}\n`;
+      output += formatVerification(citation);
+    }
+  }
+
+  if (result.excludedSources && result.excludedSources.length > 0) {
+    output += formatExcludedSources(result.excludedSources);
+  }
+
+  if (result.searchResults) {
+    const targetCount = result.targetResultCount || result.searchResults.length;
+    output += `\nSearch Results (${result.searchResults.length}/${targetCount}):\n`;
+    for (const [idx, searchResult] of result.searchResults.entries()) {
+      output += `${idx + 1}. ${searchResult.title}\n    ${searchResult.url}\n`;
+      if (searchResult.snippet) {
+        output += `    ${searchResult.snippet}\n`;
+      }
+    }
+  }
+
+  return output;
+}
+
+// Sources dropped by the domain filter
+function formatExcludedSources(sources: ExcludedSource[]): string {
+  let output = `\nExcluded by domain filter (${sources.length}):\n`;
+  for (const source of sources) {
+    output += `- ${source.title}\n    ${source.url} (${source.reason})\n`;
+  }
+  return output;
+}
+
+// Format batch search result for display
+function formatBatchSearchResult(result: BatchSearchResponse): string {
+  let output = "";
+  if (result.synthesis) {
+    output += formatSynthesis(result.synthesis, result.totalQueries);
+    output += "# Appendix: Per-Query Results\n\n";
+  } else {
+    output += `# Batch Search Results (${result.totalQueries} ${result.totalQueries === 1 ? "query" : "queries"})\n\n`;
+  }
+  output += `${"=".repeat(50)}\n\n`;
+
+  let queryIndex = 0;
+  for (const queryResult of result.results) {
+    queryIndex++;
+    output += `## Query ${queryIndex}: "${queryResult.query}"\n\n`;
+
+    if (queryResult.error) {
+      output += `❌ **Error**: ${queryResult.error}\n\n`;
+      output += `${"-".repeat(50)}\n\n`;
+      continue;
+    }
+
+    if (queryResult.credential) {
+      output += `Credential: ${queryResult.credential}\n\n`;
+    }
+
+    // Summary with proper formatting
+    if (queryResult.summary) {
+      output += `### Summary\n\n${queryResult.summary}\n\n`;
+    }
+
+    // Citations
+    if (queryResult.citations && queryResult.citations.length > 0) {
+      output += `### Citations\n`;
+      for (const citation of queryResult.citations) {
+        output += `[${citation.number}] ${citation.title}\n    ${citation.url}\n`;
+        output += formatVerification(citation);
+      }
+      output += "\n";
+    }
+
+    if (queryResult.excludedSources && queryResult.excludedSources.length > 0) {
+      output += `${formatExcludedSources(queryResult.excludedSources)}\n`;
+    }
+
+    // Search results with count indicator
+    if (queryResult.searchResults && queryResult.searchResults.length > 0) {
+      const resultCount =
+        queryResult.searchResultCount || queryResult.searchResults.length;
+      const targetCount = queryResult.targetResultCount || 5;
+      output += `### Search Results (${resultCount}/${targetCount})\n\n`;
+
+      for (const [idx, result] of queryResult.searchResults.entries()) {
+        output += `**${idx + 1}. ${result.title}**\n`;
+        output += `- URL: ${result.url}\n`;
+        if (result.snippet) {
+          output += `- Snippet: ${result.snippet}\n`;
+        }
+        output += "\n";
+      }
+    }
+
+    // Scraped content with better formatting
+    if (queryResult.scrapedContent && queryResult.scrapedContent.length > 0) {
+      output += `### Scraped Content\n\n`;
+
+      let successCount = 0;
+      let failureCount = 0;
+      let disallowedCount = 0;
+
+      for (const content of queryResult.scrapedContent) {
+        if (content.errorKind === "robots-disallowed") {
+          disallowedCount++;
+          output += `#### 🚫 Disallowed by robots.txt\n`;
+          output += `- URL: ${content.url}\n\n`;
+        } else if (content.error) {
+          failureCount++;
+          output += `#### ❌ Failed: ${content.title}\n`;
+          output += `- URL: ${content.url}\n`;
+          output += `- Error: ${content.error}\n\n`;
+        } else {
+          successCount++;
+          output += `#### ✅ ${content.title}\n`;
+          output += `- URL: ${content.url}\n`;
+          output += formatPageDates(content);
+          output += formatSummaryCoverage(content);
+          output += formatTruncation(content);
+          output += formatQuotes(content);
+          if (content.content) {
+            const contentPreview = content.content.slice(0, 200);
+            output += `- Content Preview: ${contentPreview}${content.content.length > 200 ? "..." : ""}\n`;
+            output += `- Full Length: ${content.content.length} characters\n`;
+          }
+          output += "\n";
+        }
+      }
+
+      if (successCount > 0 || failureCount > 0 || disallowedCount > 0) {
+        output += `📊 **Scraping Stats**: ${successCount} succeeded, ${failureCount} failed`;
+        if (disallowedCount > 0) {
+          output += `, ${disallowedCount} disallowed by robots.txt`;
+        }
+        output += "\n\n";
+      }
+    }
+
+    output += `${"-".repeat(50)}\n\n`;
+  }
+
+  return output;
+}
+
+// The synthesized report with its contradictions and bibliography
+function formatSynthesis(
+  synthesis: SynthesizedReport,
+  totalQueries: number,
+): string {
+  let output = `# Synthesized Report (${totalQueries} ${totalQueries === 1 ? "query" : "queries"})\n\n`;
+  if (synthesis.error) {
+    output += `⚠️ ${synthesis.error}; the answers are shown one after another\n\n`;
+  }
+  output += `${synthesis.report}\n\n`;
+
+  if (synthesis.contradictions.length > 0) {
+    output += "## Contradictions\n\n";
+    for (const contradiction of synthesis.contradictions) {
+      output += `- ${contradiction}\n`;
+    }
+    output += "\n";
+  }
+
+  output += formatSources(synthesis.sources);
+  return output;
+}
+
+// Bibliography of a synthesized report, with the queries citing each source
+function formatSources(sources: BibliographyEntry[]): string {
+  if (sources.length === 0) {
+    return "";
+  }
+
+  let output = "## Sources\n\n";
+  for (const source of sources) {
+    output += `[${source.number}] ${source.title}\n    ${source.url}\n`;
+    output += `    Cited for: ${source.queries.map((query) => `"${query}"`).join(", ")}\n`;
+    output += formatVerification(source);
+  }
+  return `${output}\n`;
+}
+
+const STOP_REASONS: Record<DeepResearchResult["stopReason"], string> = {
+  answered: "no open questions left",
+  "max-rounds": "round limit reached",
+  "max-queries": "query limit reached",
+  "time-budget": "time budget used up",
+  "planning-failed": "follow-up queries could not be generated",
+};
+
+// Report of a deep research, followed by its research trail
+function formatResearchResult(result: DeepResearchResult): string {
+  let output = `# Deep Research: "${result.question}"\n\n`;
+  output += `${result.rounds.length} ${result.rounds.length === 1 ? "round" : "rounds"}, ${result.results.length} ${result.results.length === 1 ? "query" : "queries"} in ${Math.round(result.elapsedMs / 1000)} seconds; stopped: ${STOP_REASONS[result.stopReason]}\n\n`;
+  if (result.error) {
+    output += `⚠️ ${result.error}; the answers are shown one after another\n\n`;
+  }
+  output += `${result.report}\n\n`;
+
+  if (result.contradictions.length > 0) {
+    output += "## Contradictions\n\n";
+    for (const contradiction of result.contradictions) {
+      output += `- ${contradiction}\n`;
+    }
+    output += "\n";
+  }
+
+  if (result.openQuestions.length > 0) {
+    output += "## Open Questions\n\n";
+    for (const question of result.openQuestions) {
+      output += `- ${question}\n`;
+    }
+    output += "\n";
+  }
+
+  output += formatSources(result.sources);
+
+  output += "## Research Trail\n\n";
+  for (const round of result.rounds) {
+    output += `### Round ${round.round}\n\n`;
+    for (const query of round.queries) {
+      const answer = result.results.find((item) => item.query === query);
+      output += answer?.error
+        ? `- ❌ "${query}": ${answer.error}\n`
+        : `- ✅ "${query}" (${answer?.citations?.length ?? 0} sources)\n`;
+    }
+    if (round.followUps.length > 0) {
+      output += `\nFollow-ups: ${round.followUps.map((query) => `"${query}"`).join(", ")}\n`;
+    }
+    output += "\n";
+  }
+  return output;
+}
+
+// Published/updated lines of a scraped page, with the stale warning
+function formatPageDates(content: ScrapedContent): string {
+  let output = "";
+  if (content.publishedAt) {
+    output += `- Published: ${content.publishedAt.slice(0, 10)}\n`;
+  }
+  if (content.modifiedAt) {
+    output += `- Updated: ${content.modifiedAt.slice(0, 10)}\n`;
+  }
+  if (content.stale) {
+    output += "- ⚠️ Stale: dated outside the requested freshness range\n";
+  }
+  return output;
+}
+
+// How much of the page full mode returned; nothing when it wasn't cut off
+function formatTruncation(content: ScrapedContent): string {
+  const truncation = content.truncation;
+  if (!truncation) {
+    return "";
+  }
+  return `- ⚠️ Truncated: ${truncation.shownLength} of ${truncation.totalLength} characters; raise maxContentLength for the rest\n`;
+}
+
+// How much of a long page its summary covers; nothing for plain summaries
+function formatSummaryCoverage(content: ScrapedContent): string {
+  const coverage = content.summaryCoverage;
+  if (!coverage || (coverage.chunks <= 1 && !coverage.truncated)) {
+    return "";
+  }
+
+  let output = `- Summary coverage: ${coverage.summarizedChunks}/${coverage.chunks} chunks`;
+  if (coverage.droppedChunks > 0) {
+    output += ` (${coverage.droppedChunks} dropped)`;
+  }
+  if (coverage.truncated) {
+    output += " ⚠️ truncated after a failed summarization";
+  }
+  return `${output}\n`;
+}
+
+const VERIFICATION_LABELS: Record<CitationSupport, string> = {
+  supported: "✅ Supported",
+  weak: "⚠️ Weakly supported",
+  unsupported: "❌ Unsupported",
+  unverified: "❔ Unverified",
+};
+
+// A citation's verification label, with the claims that aren't supported
+function formatVerification(citation: EnhancedCitation): string {
+  const verification = citation.verification;
+  if (!verification) {
+    return "";
+  }
+
+  let output = `    ${VERIFICATION_LABELS[verification.status]}`;
+  output += verification.reason ? `: ${verification.reason}\n` : "\n";
+  for (const check of verification.claims) {
+    if (check.status !== "supported") {
+      output += `      - ${VERIFICATION_LABELS[check.status]} (${check.method}, score ${check.score}): "${check.claim}"\n`;
+    }
+  }
+  return output;
+}
+
+// The page's quotes with where they are in the extracted Markdown
+function formatQuotes(content: ScrapedContent): string {
+  if (!content.quotes?.length) {
+    return "";
+  }
+
+  let output = "- Quotes:\n";
+  for (const quote of content.quotes) {
+    const section = quote.section ? `, under "${quote.section}"` : "";
+    output += `  - "${quote.text.replace(/\s+/g, " ")}" (line ${quote.line}${section})\n`;
+  }
+  return output;
+}
+
+// Format scrape result for display
+function formatScrapeResult(result: ScrapeResponse): string {
+  let output = `# Scraped Pages (${result.totalUrls} ${result.totalUrls === 1 ? "URL" : "URLs"})\n\n`;
+
+  for (const content of result.results) {
+    if (content.error) {
+      output += `## ❌ Failed: ${content.url}\n\n`;
+      output += `- Error: ${content.error}\n\n`;
+    } else {
+      output += `## ${content.title}\n\n`;
+      output += `- URL: ${content.url}\n`;
+      output += formatPageDates(content);
+      output += formatSummaryCoverage(content);
+      output += formatTruncation(content);
+      output += formatQuotes(content);
+      output += `- Scraped At: ${content.scrapedAt}\n\n`;
+      output += `${content.content ?? ""}\n\n`;
+    }
+    output += `${"-".repeat(50)}\n\n`;
+  }
+
+  return output;
+}
@@ -0,0 +1,380 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer as createHttpServer,
+  type Server as HttpServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authToken?: string;
+  sessionIdleTimeout: number; // Milliseconds
+  allowedHosts?: string[]; // Host names accepted besides loopback ones
+  allowedOrigins?: string[]; // Browser origins accepted besides loopback ones
+}
+
+export interface HttpServerHandle {
+  httpServer: HttpServer;
+  close: () => Promise<void>;
+}
+
+interface Session {
+  transport: Transport;
+  server: Server;
+  lastSeen: number;
+}
+
+const MCP_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+const MAX_BODY_SIZE = 4 * 1024 * 1024; // 4MB
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+const WILDCARD_HOSTS = ["0.0.0.0", "::", "[::]"];
+
+/**
+ * Serve MCP over Streamable HTTP (/mcp) and the legacy SSE transport
+ * (/sse + /messages). Each session gets its own Server from createServer.
+ */
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpTransportOptions,
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+  const allowedHosts = new Set(
+    [
+      ...LOOPBACK_HOSTS,
+      // The address the server is bound to, unless it listens everywhere
+      ...(WILDCARD_HOSTS.includes(options.host) ? [] : [options.host]),
+      ...(options.allowedHosts ?? []),
+    ].map((host) => hostnameOf(host) ?? host),
+  );
+  const allowedOrigins = new Set(
+    (options.allowedOrigins ?? []).map((origin) => originOf(origin) ?? origin),
+  );
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      console.error(`Failed to close session ${sessionId}:`, error);
+    }
+  };
+
+  const handleStreamableHttp = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+  ) => {
+    const sessionId = req.headers["mcp-session-id"];
+    const session =
+      typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+    // SSE sessions share the map but can't take /mcp requests
+    const sessionTransport =
+      session?.transport instanceof StreamableHTTPServerTransport
+        ? session.transport
+        : undefined;
+
+    // Closed or expired sessions get a 404 so clients start a new one
+    if (sessionId !== undefined && !(session && sessionTransport)) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+
+    if (req.method === "POST") {
+      const body = await readJsonBody(req);
+
+      if (session && sessionTransport) {
+        session.lastSeen = Date.now();
+        await sessionTransport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId === undefined && isInitializeRequest(body)) {
+        const server = createServer();
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (newSessionId) => {
+            sessions.set(newSessionId, {
+              transport,
+              server,
+              lastSeen: Date.now(),
+            });
+          },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId) {
+            sessions.delete(transport.sessionId);
+          }
+        };
+
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      if (!(session && sessionTransport)) {
+        sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+        return;
+      }
+      session.lastSeen = Date.now();
+      await sessionTransport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== "GET") {
+      res.writeHead(405, { Allow: "GET" }).end();
+      return;
+    }
+
+    const server = createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+    sessions.set(sessionId, { transport, server, lastSeen: Date.now() });
+    res.on("close", () => {
+      void closeSession(sessionId);
+    });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+  ) => {
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST" }).end();
+      return;
+    }
+
+    const sessionId = url.searchParams.get("sessionId");
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      res.writeHead(404).end("Unknown session");
+      return;
+    }
+
+    session.lastSeen = Date.now();
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    // Checked before anything else so a web page can't reach the server
+    // through DNS rebinding, even without a bearer token
+    const rejection = checkHostAndOrigin(req, allowedHosts, allowedOrigins);
+    if (rejection) {
+      res.writeHead(403).end(`Forbidden: ${rejection}`);
+      return;
+    }
+
+    const url = new URL(req.url || "/", `http://${req.headers.host}`);
+
+    if (!isAuthorized(req, options.authToken)) {
+      res
+        .writeHead(401, { "WWW-Authenticate": 'Bearer realm="mcp"' })
+        .end("Unauthorized");
+      return;
+    }
+
+    let handler: Promise<void>;
+    switch (url.pathname) {
+      case MCP_PATH:
+        handler = handleStreamableHttp(req, res);
+        break;
+      case SSE_PATH:
+        handler = handleSse(req, res);
+        break;
+      case SSE_MESSAGES_PATH:
+        handler = handleSseMessage(req, res, url);
+        break;
+      default:
+        res.writeHead(404).end("Not Found");
+        return;
+    }
+
+    handler.catch((error) => {
+      console.error("Error handling MCP HTTP request:", error);
+      if (!res.headersSent) {
+        const status = error instanceof HttpError ? error.status : 500;
+        sendJsonRpcError(
+          res,
+          status,
+          error instanceof Error ? error.message : "Internal server error",
+        );
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  // Close sessions whose clients went away without a DELETE
+  const sweepInterval = setInterval(
+    () => {
+      const now = Date.now();
+      for (const [sessionId, session] of sessions) {
+        if (now - session.lastSeen > options.sessionIdleTimeout) {
+          console.error(`Closing idle MCP session ${sessionId}`);
+          void closeSession(sessionId);
+        }
+      }
+    },
+    Math.min(options.sessionIdleTimeout, 60000),
+  );
+  sweepInterval.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  // Open SSE streams would keep httpServer.close() waiting, so sessions are
+  // closed first
+  const close = async () => {
+    clearInterval(sweepInterval);
+    await Promise.all(Array.from(sessions.keys()).map(closeSession));
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    });
+  };
+
+  return { httpServer, close };
+}
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+// Why the request's Host or Origin header isn't allowed, if it isn't.
+// Requests without an Origin come from non-browser clients and only need an
+// allowed Host; loopback origins are allowed on any port
+function checkHostAndOrigin(
+  req: IncomingMessage,
+  allowedHosts: Set<string>,
+  allowedOrigins: Set<string>,
+): string | undefined {
+  const host = hostnameOf(req.headers.host ?? "");
+  if (!host || !allowedHosts.has(host)) {
+    return `Host ${req.headers.host ?? "(none)"} not allowed`;
+  }
+
+  const origin = req.headers.origin;
+  if (origin === undefined) {
+    return undefined;
+  }
+  const normalized = originOf(origin);
+  if (
+    normalized &&
+    (allowedOrigins.has(normalized) ||
+      LOOPBACK_HOSTS.includes(new URL(normalized).hostname))
+  ) {
+    return undefined;
+  }
+  return `Origin ${origin} not allowed`;
+}
+
+// Lower-case host name without the port; IPv6 addresses keep their brackets
+function hostnameOf(host: string): string | undefined {
+  // A bare IPv6 address (from --host or the allowed hosts) needs brackets
+  const value = /^[^[]*:.*:/.test(host) ? `[${host}]` : host;
+  try {
+    const { hostname } = new URL(`http://${value}`);
+    return hostname || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Normalized scheme://host[:port] of an Origin header ("null" has none)
+function originOf(origin: string): string | undefined {
+  try {
+    const { origin: normalized } = new URL(origin);
+    return normalized === "null" ? undefined : normalized;
+  } catch {
+    return undefined;
+  }
+}
+
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) {
+    return true;
+  }
+
+  const header = req.headers.authorization || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  const expected = Buffer.from(authToken);
+  const actual = Buffer.from(match[1]);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  // Reject declared oversized bodies before reading any of them
+  if (Number(req.headers["content-length"]) > MAX_BODY_SIZE) {
+    throw new HttpError(413, "Request body too large");
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new HttpError(400, "Parse error: Invalid JSON");
+  }
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+): void {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: status === 400 ? -32000 : -32603, message },
+      id: null,
+    }),
+  );
+}
@@ -42,4 +42,12 @@ export interface GeminiOAuthResponse {
   response?: {
     candidates?: GeminiCandidate[];
   };
+  // Label of the pooled credential that served the request
+  credential?: string;
+}
+
+// A prior turn of a multi-turn conversation, sent before the new query
+export interface ConversationTurn {
+  role: "user" | "model";
+  text: string;
 }
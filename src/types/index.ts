@@ -1,19 +1,82 @@
 export interface SearchResult {
   query: string;
   summary: string;
-  citations: Citation[];
+  citations: EnhancedCitation[];
+  searchResults?: SearchResultDetail[];
+  targetResultCount?: number;
+  session?: SessionInfo;
+  credential?: string; // Pooled credential that served the search
+  excludedSources?: ExcludedSource[]; // Sources removed by the domain filter
+}
+
+// Follow-up conversation a search belongs to
+export interface SessionInfo {
+  id: string;
+  turn: number; // Exchanges held for the session, including this one
 }
 
 export interface Citation {
   number: number;
   title: string;
   url: string;
+  originalUrl?: string; // Grounding redirect URL before resolution
+}
+
+// Source dropped by the domain filter, reported instead of silently removed
+export interface ExcludedSource {
+  title: string;
+  url: string;
+  reason: string;
 }
 
 export interface SearchResultDetail {
   title: string;
   url: string;
   snippet: string;
+  originalUrl?: string; // Grounding redirect URL before resolution
+}
+
+// Why a page has no content: robots.txt disallows it or couldn't be read,
+// the domain filter blocks it, the safe-fetch checks reject it, or fetching
+// or extracting it failed
+export type ScrapeErrorKind =
+  | "robots-disallowed"
+  | "robots-unavailable"
+  | "domain-blocked"
+  | "unsafe-url"
+  | "too-many-redirects"
+  | "too-large"
+  | "unsupported-content-type"
+  | "fetch-failed";
+
+// How much of a long text made it into its summary. Texts longer than
+// SUMMARY_CHUNK_SIZE are summarized in chunks and merged.
+export interface SummaryCoverage {
+  chunks: number; // Chunks the text was split into
+  summarizedChunks: number; // Chunks whose summary is part of the result
+  droppedChunks: number; // Chunks over SUMMARY_MAX_CHUNKS or whose call failed
+  truncated: boolean; // Generation failed and excerpts were used instead
+}
+
+// Passage of a page quoted by its summary, verbatim from the page's
+// extracted Markdown
+export interface PageQuote {
+  text: string;
+  offset: number; // Character offset in the extracted Markdown
+  line: number; // 1-based line in the extracted Markdown
+  section?: string; // Nearest heading above the quote
+}
+
+export interface SummaryResult {
+  text: string;
+  coverage: SummaryCoverage;
+  quotes: PageQuote[];
+}
+
+// How much of a page full mode returned after maxContentLength cut it off
+export interface ContentTruncation {
+  shownLength: number; // Characters of the page returned
+  totalLength: number; // Characters of the whole extracted page
 }
 
 export interface ScrapedContent {
@@ -21,23 +84,103 @@ export interface ScrapedContent {
   title: string;
   content: string | null;
   error?: string;
+  errorKind?: ScrapeErrorKind;
   scrapedAt: string;
+  publishedAt?: string; // From the page's JSON-LD or <meta> tags
+  modifiedAt?: string;
+  stale?: boolean; // Dated outside the requested freshness range
+  summaryCoverage?: SummaryCoverage; // Excerpt and summary modes
+  truncation?: ContentTruncation; // Full mode, when the page was cut off
+  quotes?: PageQuote[]; // Most relevant passages, in excerpt and summary modes
 }
 
 export interface BatchSearchResult {
   query: string;
   summary?: string;
-  citations?: Citation[];
+  citations?: EnhancedCitation[];
   searchResults?: SearchResultDetail[];
   scrapedContent?: ScrapedContent[];
   error?: string;
   searchResultCount?: number;
   targetResultCount?: number;
+  credential?: string;
+  excludedSources?: ExcludedSource[];
 }
 
 export interface BatchSearchResponse {
   totalQueries: number;
   results: BatchSearchResult[];
+  synthesis?: SynthesizedReport; // With synthesize
+}
+
+// Source of a synthesized report, with the queries whose answers cite it
+export interface BibliographyEntry extends EnhancedCitation {
+  queries: string[];
+}
+
+// One report over every query of a batch. Its [n] markers and the per-query
+// results share the numbering of sources.
+export interface SynthesizedReport {
+  report: string;
+  sources: BibliographyEntry[];
+  contradictions: string[]; // Points on which the queries' answers disagree
+  error?: string; // Why the answers were stitched together instead
+}
+
+// One step of a running batch search, reported while the batch is in progress
+export interface BatchProgress {
+  stage:
+    | "query-started"
+    | "answer-received"
+    | "url-scraped"
+    | "retry"
+    | "query-failed";
+  query: string;
+  message: string; // Human readable, e.g. for MCP progress notifications
+}
+
+// One step of a running deep research; batch steps are passed through
+export interface ResearchProgress {
+  stage:
+    | "planning"
+    | "round-started"
+    | "gap-analysis"
+    | "synthesizing"
+    | BatchProgress["stage"];
+  round: number; // 0 while planning the first round
+  message: string;
+}
+
+export type ResearchStopReason =
+  | "answered" // Gap analysis found nothing left to search
+  | "max-rounds"
+  | "max-queries"
+  | "time-budget"
+  | "planning-failed"; // Follow-up queries couldn't be generated
+
+// One round of the research trail
+export interface ResearchRound {
+  round: number;
+  queries: string[];
+  followUps: string[]; // Queries the gap analysis proposed afterwards
+}
+
+export interface DeepResearchResult {
+  question: string;
+  report: string; // Markdown with [n] markers into sources
+  sources: BibliographyEntry[];
+  contradictions: string[];
+  openQuestions: string[]; // Follow-ups left when the budget ran out
+  rounds: ResearchRound[];
+  results: BatchSearchResult[]; // Every query's answer, numbered like sources
+  stopReason: ResearchStopReason;
+  elapsedMs: number;
+  error?: string; // Why the report is the answers stitched together
+}
+
+export interface ScrapeResponse {
+  totalUrls: number;
+  results: ScrapedContent[];
 }
 
 export interface ErrorResponse {
@@ -48,7 +191,7 @@ export interface ErrorResponse {
 }
 
 export interface AuthMethod {
-  type: "api-key" | "oauth";
+  type: "api-key" | "oauth" | "vertex-ai";
   value: string;
 }
 
@@ -85,6 +228,35 @@ export interface UnifiedSearchResponse {
 export interface EnhancedCitation extends Citation {
   excerpt?: string; // Relevant excerpt from the source (provided by Gemini API)
   context?: string; // Context where citation was used (from Gemini's segment.text)
+  verification?: CitationVerification; // With verifyCitations
+}
+
+// "lexical" compares cited claims with the source's words; "model" also asks
+// the summary model about claims the words don't clearly support
+export type VerifyCitationsMode = "lexical" | "model";
+
+// "unverified" when the source couldn't be fetched or nothing cites it
+export type CitationSupport =
+  | "supported"
+  | "weak"
+  | "unsupported"
+  | "unverified";
+
+// One claim of the answer checked against a cited source
+export interface ClaimCheck {
+  claim: string;
+  status: CitationSupport;
+  score: number; // Share of the claim's terms found in the best passage, 0-1
+  method: VerifyCitationsMode; // What decided the status
+  evidence?: string; // Best matching passage of the source
+}
+
+// Whether a cited source supports the claims it is attached to; the status
+// is that of the least supported claim
+export interface CitationVerification {
+  status: CitationSupport;
+  claims: ClaimCheck[];
+  reason?: string; // Why the citation is unverified
 }
 
 export interface TextSegment {
@@ -104,10 +276,39 @@ export interface StructuredSearchResult {
   };
   searchResults?: SearchResultDetail[];
   scrapedContent?: ScrapedContent[];
+  session?: SessionInfo;
+  excludedSources?: ExcludedSource[];
   metadata?: {
     searchResultCount?: number;
     targetResultCount?: number;
     processingTime?: number;
     citationCount?: number;
+    credential?: string;
   };
 }
+
+// JSON-safe form of StructuredSearchResult, returned as MCP structuredContent
+export interface StructuredSearchContent {
+  query: string;
+  summary: string;
+  segments: TextSegment[];
+  sources: EnhancedCitation[];
+  citationMap: Record<string, EnhancedCitation>; // Keyed by citation number
+  searchResults?: SearchResultDetail[];
+  scrapedContent?: ScrapedContent[];
+  session?: SessionInfo;
+  excludedSources?: ExcludedSource[];
+  metadata?: StructuredSearchResult["metadata"];
+  error?: string;
+}
+
+export interface StructuredBatchContent {
+  totalQueries: number;
+  results: StructuredSearchContent[];
+  synthesis?: SynthesizedReport;
+}
+
+export interface StructuredResearchContent
+  extends Omit<DeepResearchResult, "results"> {
+  results: StructuredSearchContent[];
+}
@@ -0,0 +1,86 @@
+// Signal that aborts when any of the given signals does. AbortSignal.any
+// needs Node 20.3, and the server still supports Node 18.
+export function anySignal(
+  signals: Array<AbortSignal | undefined>,
+): AbortSignal | undefined {
+  const present = signals.filter(
+    (signal): signal is AbortSignal => signal !== undefined,
+  );
+  if (present.length <= 1) {
+    return present[0];
+  }
+
+  const controller = new AbortController();
+  const aborted = present.find((signal) => signal.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+    return controller.signal;
+  }
+
+  const onAbort = (event: Event) => {
+    for (const signal of present) {
+      signal.removeEventListener("abort", onAbort);
+    }
+    controller.abort((event.target as AbortSignal).reason);
+  };
+  for (const signal of present) {
+    signal.addEventListener("abort", onAbort, { once: true });
+  }
+  return controller.signal;
+}
+
+// The caller's signal combined with a per-request timeout; 0 disables the
+// timeout
+export function withTimeout(
+  signal: AbortSignal | undefined,
+  timeoutMs: number,
+): AbortSignal | undefined {
+  return anySignal([
+    signal,
+    timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined,
+  ]);
+}
+
+// setTimeout as a promise that rejects with the signal's reason on abort
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Wait for a promise that may be shared with other callers; aborting only
+// stops this caller's wait
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
@@ -0,0 +1,318 @@
+import { createHash, randomUUID } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  rmdir,
+  stat,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+interface CacheFile<T> {
+  key: string;
+  createdAt: number;
+  expiresAt: number;
+  value: T;
+}
+
+interface CacheFileInfo {
+  path: string;
+  namespace: string;
+  size: number;
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  directory: string;
+  enabled: boolean;
+  entries: number;
+  totalSize: number; // Bytes
+  maxSize: number; // Bytes
+  maxEntries: number;
+  namespaces: Record<string, { entries: number; size: number }>;
+}
+
+export interface PersistentCacheOptions {
+  directory?: string;
+  ttl?: number; // Default time-to-live in milliseconds
+  maxSize?: number; // Bytes
+  maxEntries?: number;
+  enabled?: boolean;
+}
+
+// Namespaces the cache is split into; anything else is rejected so a
+// namespace can never point outside the cache directory
+export const CACHE_NAMESPACES = ["scrape", "search"] as const;
+export type CacheNamespace = (typeof CACHE_NAMESPACES)[number];
+
+const PRUNE_INTERVAL_MS = 60000;
+// Temp files older than this were left behind by an interrupted write
+const STALE_TEMP_MS = 60000;
+
+export function isCacheNamespace(value: string): value is CacheNamespace {
+  return (CACHE_NAMESPACES as readonly string[]).includes(value);
+}
+
+function defaultCacheDirectory(): string {
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(base, "gemini-grounding-mcp");
+}
+
+/**
+ * File-backed cache shared across server restarts (and processes).
+ * Each entry is a JSON file under <directory>/<namespace>/; entries expire
+ * after their TTL and the least recently used ones are evicted when the
+ * size or entry limits are exceeded.
+ */
+export class PersistentCache {
+  readonly directory: string;
+  private ttl: number;
+  private maxSize: number;
+  private maxEntries: number;
+  private enabled: boolean;
+  private pruning: Promise<void> | null = null;
+  private lastPrune = 0;
+
+  constructor(options: PersistentCacheOptions = {}) {
+    this.directory =
+      options.directory || process.env.CACHE_DIR || defaultCacheDirectory();
+    this.ttl =
+      options.ttl ??
+      Number.parseInt(process.env.CACHE_TTL || "3600", 10) * 1000;
+    this.maxSize =
+      options.maxSize ??
+      Number.parseInt(process.env.CACHE_MAX_SIZE || "100", 10) * 1024 * 1024;
+    this.maxEntries =
+      options.maxEntries ??
+      Number.parseInt(process.env.CACHE_MAX_ENTRIES || "5000", 10);
+    this.enabled = options.enabled ?? process.env.CACHE_ENABLED !== "false";
+  }
+
+  async get<T>(namespace: CacheNamespace, key: string): Promise<T | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const path = this._entryPath(namespace, key);
+    try {
+      const entry = JSON.parse(await readFile(path, "utf-8")) as CacheFile<T>;
+
+      // Guard against hash collisions
+      if (entry.key !== key) {
+        return undefined;
+      }
+
+      if (Date.now() >= entry.expiresAt) {
+        await rm(path, { force: true });
+        return undefined;
+      }
+
+      // Track last access through mtime for LRU eviction
+      const now = new Date();
+      await utimes(path, now, now).catch(() => {});
+
+      return entry.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T>(
+    namespace: CacheNamespace,
+    key: string,
+    value: T,
+    ttl = this.ttl,
+  ): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const path = this._entryPath(namespace, key);
+    const entry: CacheFile<T> = {
+      key,
+      createdAt: Date.now(),
+      expiresAt: Date.now() + ttl,
+      value,
+    };
+
+    try {
+      await mkdir(join(this.directory, namespace), { recursive: true });
+
+      // Write to a temp file first so concurrent readers never see partial JSON
+      const tempPath = `${path}.${randomUUID()}.tmp`;
+      await writeFile(tempPath, JSON.stringify(entry));
+      await rename(tempPath, path);
+    } catch (error) {
+      console.error("Failed to write cache entry:", error);
+      return;
+    }
+
+    this._schedulePrune();
+  }
+
+  async delete(namespace: CacheNamespace, key: string): Promise<void> {
+    await rm(this._entryPath(namespace, key), { force: true });
+  }
+
+  async clear(namespace?: CacheNamespace): Promise<void> {
+    if (namespace !== undefined && !isCacheNamespace(namespace)) {
+      throw new Error(
+        `Unknown cache namespace "${namespace}" (expected ${CACHE_NAMESPACES.join(" or ")})`,
+      );
+    }
+    // Only remove the cache's own subdirectories (temp files included), so a
+    // CACHE_DIR shared with other files never loses them
+    for (const name of namespace ? [namespace] : CACHE_NAMESPACES) {
+      await rm(join(this.directory, name), { recursive: true, force: true });
+    }
+    if (!namespace) {
+      // Fails, and is meant to, when anything else is left in the directory
+      await rmdir(this.directory).catch(() => {});
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    const files = await this._listFiles();
+    const namespaces: CacheStats["namespaces"] = {};
+    let totalSize = 0;
+
+    for (const file of files) {
+      totalSize += file.size;
+      const namespaceStats = namespaces[file.namespace] || {
+        entries: 0,
+        size: 0,
+      };
+      namespaceStats.entries++;
+      namespaceStats.size += file.size;
+      namespaces[file.namespace] = namespaceStats;
+    }
+
+    return {
+      directory: this.directory,
+      enabled: this.enabled,
+      entries: files.length,
+      totalSize,
+      maxSize: this.maxSize,
+      maxEntries: this.maxEntries,
+      namespaces,
+    };
+  }
+
+  /**
+   * Remove expired entries, then evict least recently used entries until the
+   * cache is within its size and entry limits
+   */
+  async prune(): Promise<void> {
+    const now = Date.now();
+    const live: CacheFileInfo[] = [];
+
+    for (const file of await this._listFiles()) {
+      // Entries untouched for longer than the TTL are expired; read the file
+      // to check its own expiry instead of guessing from mtime alone
+      if (now - file.lastAccess > this.ttl) {
+        try {
+          const entry = JSON.parse(
+            await readFile(file.path, "utf-8"),
+          ) as CacheFile<unknown>;
+          if (now >= entry.expiresAt) {
+            await rm(file.path, { force: true });
+            continue;
+          }
+        } catch {
+          await rm(file.path, { force: true });
+          continue;
+        }
+      }
+      live.push(file);
+    }
+
+    live.sort((a, b) => a.lastAccess - b.lastAccess);
+    let totalSize = live.reduce((sum, file) => sum + file.size, 0);
+    let entries = live.length;
+
+    for (const file of live) {
+      if (totalSize <= this.maxSize && entries <= this.maxEntries) {
+        break;
+      }
+      await rm(file.path, { force: true });
+      totalSize -= file.size;
+      entries--;
+    }
+  }
+
+  // Scanning the directory is not free, so prune at most once per interval
+  private _schedulePrune(): void {
+    if (this.pruning || Date.now() - this.lastPrune < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPrune = Date.now();
+
+    this.pruning = this.prune()
+      .catch((error) => {
+        console.error("Failed to prune cache:", error);
+      })
+      .finally(() => {
+        this.pruning = null;
+      });
+  }
+
+  private _entryPath(namespace: CacheNamespace, key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return join(this.directory, namespace, `${hash}.json`);
+  }
+
+  // Cache entries of every namespace; stale temp files found on the way are
+  // removed
+  private async _listFiles(): Promise<CacheFileInfo[]> {
+    const files: CacheFileInfo[] = [];
+    const now = Date.now();
+
+    let namespaces: string[];
+    try {
+      namespaces = await readdir(this.directory);
+    } catch {
+      return files;
+    }
+
+    for (const namespace of namespaces) {
+      let names: string[];
+      try {
+        names = await readdir(join(this.directory, namespace));
+      } catch {
+        continue;
+      }
+
+      for (const name of names) {
+        const temp = name.endsWith(".tmp");
+        if (!temp && !name.endsWith(".json")) {
+          continue;
+        }
+        const path = join(this.directory, namespace, name);
+        try {
+          const info = await stat(path);
+          if (temp) {
+            if (now - info.mtimeMs > STALE_TEMP_MS) {
+              await rm(path, { force: true });
+            }
+            continue;
+          }
+          files.push({
+            path,
+            namespace,
+            size: info.size,
+            lastAccess: info.mtimeMs,
+          });
+        } catch {
+          // Removed concurrently
+        }
+      }
+    }
+
+    return files;
+  }
+}
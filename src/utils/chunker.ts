@@ -0,0 +1,54 @@
+// Split text at the last separator before maxLength, or hard at maxLength
+function splitLong(text: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > maxLength) {
+    const window = rest.slice(0, maxLength);
+    const cut = Math.max(
+      window.lastIndexOf("\n"),
+      window.lastIndexOf(". ") + 1,
+      window.lastIndexOf(" "),
+    );
+    const end = cut > maxLength / 2 ? cut : maxLength;
+    pieces.push(rest.slice(0, end));
+    rest = rest.slice(end).trimStart();
+  }
+  return rest ? [...pieces, rest] : pieces;
+}
+
+/**
+ * Split Markdown into chunks of at most maxLength characters. Sections start
+ * at headings and stay together when they fit; longer sections are split
+ * between paragraphs, and paragraphs longer than a chunk are split between
+ * lines or words. Small neighbouring pieces are packed into one chunk.
+ */
+export function chunkMarkdown(text: string, maxLength: number): string[] {
+  const sections = text
+    .split(/\n(?=#{1,6}\s)/)
+    .map((section) => section.trim())
+    .filter(Boolean);
+
+  const pieces = sections.flatMap((section) =>
+    section.length <= maxLength
+      ? [section]
+      : section
+          .split(/\n{2,}/)
+          .flatMap((paragraph) => splitLong(paragraph.trim(), maxLength))
+          .filter(Boolean),
+  );
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + 2 + piece.length > maxLength) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
@@ -1,14 +1,21 @@
 import type {
+  BatchSearchResponse,
+  DeepResearchResult,
   EnhancedCitation,
   ScrapedContent,
   SearchResult,
   SearchResultDetail,
+  StructuredBatchContent,
+  StructuredResearchContent,
+  StructuredSearchContent,
   StructuredSearchResult,
   TextSegment,
 } from "../types/index";
 
 /**
- * Parse text with citation markers and create structured segments
+ * Parse text with citation markers and create structured segments.
+ * Markers follow the text they support (e.g. "claim.[1][2]"), so each run of
+ * markers closes the segment that precedes it.
  */
 export function parseTextWithCitations(text: string): {
   segments: TextSegment[];
@@ -17,63 +24,43 @@ export function parseTextWithCitations(text: string): {
   const segments: TextSegment[] = [];
   const citationNumbers = new Set<number>();
 
-  // Find all citation markers
-  const citations = Array.from(text.matchAll(/\[(\d+)\]/g));
+  // Find all runs of adjacent citation markers
+  const markerRuns = Array.from(text.matchAll(/(?:\[\d+\])+/g));
   let lastIndex = 0;
 
-  for (const match of citations) {
-    const citationNumber = parseInt(match[1], 10);
-    citationNumbers.add(citationNumber);
-
-    // Add text segment before citation if exists
-    if (match.index !== undefined && match.index > lastIndex) {
-      const segmentText = text.slice(lastIndex, match.index);
-      if (segmentText.trim()) {
-        segments.push({
-          text: segmentText,
-          citationIds: [],
-          startIndex: lastIndex,
-          endIndex: match.index,
-        });
-      }
-    }
-
-    // Find the end of the sentence or paragraph for this citation
+  for (const match of markerRuns) {
     const matchIndex = match.index ?? 0;
-    let endIndex = matchIndex + match[0].length;
-    const remainingText = text.slice(endIndex);
+    const citationIds: number[] = [];
 
-    // Look for sentence endings
-    const sentenceEndMatch = remainingText.match(/^[^.!?]*[.!?]/);
-    if (sentenceEndMatch) {
-      endIndex += sentenceEndMatch[0].length;
+    for (const marker of match[0].matchAll(/\[(\d+)\]/g)) {
+      const citationNumber = parseInt(marker[1], 10);
+      citationNumbers.add(citationNumber);
+      if (!citationIds.includes(citationNumber)) {
+        citationIds.push(citationNumber);
+      }
     }
 
-    // Get the sentence/segment with the citation
-    const segmentWithCitation = text.slice(matchIndex, endIndex);
-
-    // Check if we need to merge with previous segment
+    const segmentText = text.slice(lastIndex, matchIndex);
     const lastSegment = segments[segments.length - 1];
-    if (
-      lastSegment &&
-      lastSegment.endIndex === matchIndex &&
-      lastSegment.citationIds.length > 0
-    ) {
-      // Merge with previous segment if they're adjacent and both have citations
-      lastSegment.text += segmentWithCitation;
-      lastSegment.citationIds.push(citationNumber);
-      lastSegment.endIndex = endIndex;
-    } else {
-      // Create new segment
+
+    if (segmentText.trim()) {
       segments.push({
-        text: segmentWithCitation,
-        citationIds: [citationNumber],
-        startIndex: matchIndex,
-        endIndex: endIndex,
+        text: segmentText,
+        citationIds,
+        startIndex: lastIndex,
+        endIndex: matchIndex,
       });
+    } else if (lastSegment) {
+      // Markers separated from the previous run only by whitespace belong to
+      // the same segment
+      for (const citationId of citationIds) {
+        if (!lastSegment.citationIds.includes(citationId)) {
+          lastSegment.citationIds.push(citationId);
+        }
+      }
     }
 
-    lastIndex = endIndex;
+    lastIndex = matchIndex + match[0].length;
   }
 
   // Add any remaining text
@@ -147,11 +134,91 @@ export function createStructuredSearchResult(
     },
     searchResults: searchResult.searchResults,
     scrapedContent,
+    session: searchResult.session,
+    excludedSources: searchResult.excludedSources,
     metadata: {
       searchResultCount: searchResult.searchResults?.length,
       targetResultCount: searchResult.targetResultCount,
       processingTime: searchResult.processingTime,
       citationCount: enhancedCitations.length,
+      credential: searchResult.credential,
     },
   };
 }
+
+/**
+ * Convert a StructuredSearchResult into a JSON-safe object for MCP structuredContent
+ */
+export function toStructuredContent(
+  result: StructuredSearchResult,
+): StructuredSearchContent {
+  const citationMap: Record<string, EnhancedCitation> = {};
+  for (const [citationNumber, citation] of result.structured.citationMap) {
+    citationMap[String(citationNumber)] = citation;
+  }
+
+  return {
+    query: result.query,
+    summary: result.summary,
+    segments: result.structured.segments,
+    sources: result.citations,
+    citationMap,
+    searchResults: result.searchResults,
+    scrapedContent: result.scrapedContent,
+    session: result.session,
+    excludedSources: result.excludedSources,
+    metadata: result.metadata,
+  };
+}
+
+/**
+ * Convert a BatchSearchResponse into a JSON-safe object for MCP structuredContent
+ */
+export function toStructuredBatchContent(
+  response: BatchSearchResponse,
+): StructuredBatchContent {
+  return {
+    totalQueries: response.totalQueries,
+    ...(response.synthesis && { synthesis: response.synthesis }),
+    results: response.results.map((result) => {
+      if (result.error) {
+        return {
+          query: result.query,
+          summary: "",
+          segments: [],
+          sources: [],
+          citationMap: {},
+          error: result.error,
+        };
+      }
+
+      return toStructuredContent(
+        createStructuredSearchResult(
+          {
+            query: result.query,
+            summary: result.summary || "",
+            citations: result.citations || [],
+            searchResults: result.searchResults,
+            targetResultCount: result.targetResultCount,
+            credential: result.credential,
+            excludedSources: result.excludedSources,
+          },
+          result.scrapedContent,
+        ),
+      );
+    }),
+  };
+}
+
+// JSON-safe form of a deep research, with every query's answer structured
+export function toStructuredResearchContent(
+  result: DeepResearchResult,
+): StructuredResearchContent {
+  return {
+    ...result,
+    results: toStructuredBatchContent({
+      totalQueries: result.results.length,
+      results: result.results,
+    }).results,
+  };
+}
@@ -0,0 +1,235 @@
+import type {
+  CitationSupport,
+  CitationVerification,
+  ClaimCheck,
+  EnhancedCitation,
+  VerifyCitationsMode,
+} from "../types/index";
+import { parseTextWithCitations } from "./citation-parser";
+import type { Priority } from "./scheduler";
+import type { Scraper } from "./scraper";
+
+// Ask the model whether a passage supports a claim
+export type ClaimJudge = (
+  claim: string,
+  passages: string[],
+  options: { priority?: Priority; signal?: AbortSignal },
+) => Promise<Exclude<CitationSupport, "unverified">>;
+
+export interface VerifyOptions {
+  priority?: Priority;
+  signal?: AbortSignal;
+}
+
+const SUPPORTED_SCORE = 0.75;
+const WEAK_SCORE = 0.45;
+const WINDOW_SENTENCES = 3; // Sentences per compared passage
+const JUDGED_PASSAGES = 3; // Best passages shown to the model
+const MAX_EVIDENCE_LENGTH = 300;
+const MAX_SOURCE_LENGTH = 200000;
+
+const STATUS_ORDER: Record<CitationSupport, number> = {
+  unsupported: 0,
+  weak: 1,
+  supported: 2,
+  unverified: 3,
+};
+
+const STOP_WORDS = new Set(
+  (
+    "the and for are but not you all any can had her was one our out has " +
+    "his how its may new now see two who did get him let say she too use " +
+    "that with have this will your from they been were said each which " +
+    "their than then them these some would there what about into more " +
+    "other also when only over such most very just like well after where " +
+    "while because between through does being both many those could should"
+  ).split(" "),
+);
+
+// Words and numbers of a text that carry meaning
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (term) => /\d/.test(term) || (term.length > 2 && !STOP_WORDS.has(term)),
+  );
+}
+
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Passages of the source ranked by how many of the claim's terms they
+ * contain. A passage is a window of a few consecutive sentences, so claims
+ * that paraphrase a paragraph still match.
+ */
+export function rankPassages(
+  claim: string,
+  source: string,
+): { text: string; score: number }[] {
+  const claimTerms = new Set(terms(claim));
+  if (claimTerms.size === 0) {
+    return [];
+  }
+
+  const parts = sentences(source);
+  const ranked: { text: string; score: number }[] = [];
+  for (let i = 0; i < Math.max(parts.length - WINDOW_SENTENCES + 1, 1); i++) {
+    const text = parts.slice(i, i + WINDOW_SENTENCES).join(" ");
+    const passageTerms = new Set(terms(text));
+    let found = 0;
+    for (const term of claimTerms) {
+      if (passageTerms.has(term)) {
+        found++;
+      }
+    }
+    ranked.push({ text, score: found / claimTerms.size });
+  }
+  return ranked.sort((a, b) => b.score - a.score);
+}
+
+function lexicalStatus(score: number): CitationSupport {
+  return score >= SUPPORTED_SCORE
+    ? "supported"
+    : score >= WEAK_SCORE
+      ? "weak"
+      : "unsupported";
+}
+
+function evidence(text: string): string {
+  return text.length > MAX_EVIDENCE_LENGTH
+    ? `${text.slice(0, MAX_EVIDENCE_LENGTH)}...`
+    : text;
+}
+
+// Text of a cited segment without Markdown emphasis, headings and list marks
+function claimText(segment: string): string {
+  return segment
+    .replace(/^\s*(?:#{1,6}|[-*+]|\d+\.)\s+/gm, "")
+    .replace(/[*_`]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Checks each citation of an answer against the text of its source. The
+ * claims are the answer's segments that end in the citation's [n] marker;
+ * the source is scraped in full and searched for a passage containing the
+ * claim's terms. In "model" mode, claims without a clearly supporting
+ * passage are judged by the model with the best passages.
+ */
+export class CitationVerifier {
+  constructor(
+    private readonly scraper: Pick<Scraper, "scrapeUrl">,
+    private readonly judge?: ClaimJudge,
+  ) {}
+
+  async verify<T extends { summary: string; citations: EnhancedCitation[] }>(
+    result: T,
+    mode: VerifyCitationsMode,
+    options: VerifyOptions = {},
+  ): Promise<Omit<T, "citations"> & { citations: EnhancedCitation[] }> {
+    const claims = new Map<number, string[]>();
+    for (const segment of parseTextWithCitations(result.summary).segments) {
+      const claim = claimText(segment.text);
+      for (const citationId of segment.citationIds) {
+        if (claim) {
+          claims.set(citationId, [...(claims.get(citationId) ?? []), claim]);
+        }
+      }
+    }
+
+    const citations = await Promise.all(
+      result.citations.map(async (citation) => ({
+        ...citation,
+        verification: await this._verifyCitation(
+          citation,
+          claims.get(citation.number) ?? [],
+          mode,
+          options,
+        ),
+      })),
+    );
+    return { ...result, citations };
+  }
+
+  private async _verifyCitation(
+    citation: EnhancedCitation,
+    claims: string[],
+    mode: VerifyCitationsMode,
+    options: VerifyOptions,
+  ): Promise<CitationVerification> {
+    if (claims.length === 0) {
+      return {
+        status: "unverified",
+        claims: [],
+        reason: "No claim in the answer cites this source",
+      };
+    }
+
+    const page = await this.scraper.scrapeUrl(citation.url, {
+      contentMode: "full",
+      maxContentLength: MAX_SOURCE_LENGTH,
+      priority: options.priority,
+      signal: options.signal,
+    });
+    if (!page.content) {
+      return {
+        status: "unverified",
+        claims: [],
+        reason: `Source could not be fetched: ${page.error ?? "no content"}`,
+      };
+    }
+
+    const source = page.content;
+    const checks = await Promise.all(
+      claims.map((claim) => this._checkClaim(claim, source, mode, options)),
+    );
+    const status = checks.reduce<CitationSupport>(
+      (worst, check) =>
+        STATUS_ORDER[check.status] < STATUS_ORDER[worst] ? check.status : worst,
+      "supported",
+    );
+    return { status, claims: checks };
+  }
+
+  private async _checkClaim(
+    claim: string,
+    source: string,
+    mode: VerifyCitationsMode,
+    options: VerifyOptions,
+  ): Promise<ClaimCheck> {
+    const passages = rankPassages(claim, source);
+    const best = passages[0];
+    const check: ClaimCheck = {
+      claim,
+      status: lexicalStatus(best?.score ?? 0),
+      score: Math.round((best?.score ?? 0) * 100) / 100,
+      method: "lexical",
+      ...(best && { evidence: evidence(best.text) }),
+    };
+    if (
+      mode !== "model" ||
+      !this.judge ||
+      check.status === "supported" ||
+      passages.length === 0
+    ) {
+      return check;
+    }
+
+    try {
+      const status = await this.judge(
+        claim,
+        passages.slice(0, JUDGED_PASSAGES).map((passage) => passage.text),
+        options,
+      );
+      return { ...check, status, method: "model" };
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      console.error("Citation judgment failed, keeping lexical result:", error);
+      return check;
+    }
+  }
+}
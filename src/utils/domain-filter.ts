@@ -0,0 +1,173 @@
+import type {
+  Citation,
+  ExcludedSource,
+  SearchResultDetail,
+} from "../types/index";
+
+export interface DomainFilterOptions {
+  includeDomains?: string[];
+  excludeDomains?: string[];
+}
+
+const DOMAIN_PATTERN = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/i;
+
+// "python.org" and "*.python.org" both match python.org and its subdomains
+export function isValidDomainPattern(pattern: string): boolean {
+  return DOMAIN_PATTERN.test(pattern.trim());
+}
+
+function normalize(pattern: string): string {
+  return pattern.trim().toLowerCase().replace(/^\*\./, "");
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+}
+
+function hostMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Allow/deny list of domains for grounded sources and scraped pages.
+ * Several include lists may apply (server-wide and per call); a URL must
+ * match each of them and none of the excluded domains.
+ */
+export class DomainFilter {
+  private readonly includeLists: string[][];
+  private readonly exclude: string[];
+
+  constructor(options: DomainFilterOptions = {}) {
+    const include = (options.includeDomains ?? []).map(normalize);
+    this.includeLists = include.length > 0 ? [include] : [];
+    this.exclude = (options.excludeDomains ?? []).map(normalize);
+  }
+
+  // Server-wide filter from INCLUDE_DOMAINS and EXCLUDE_DOMAINS
+  static fromEnv(): DomainFilter {
+    return new DomainFilter({
+      includeDomains: parseList(process.env.INCLUDE_DOMAINS),
+      excludeDomains: parseList(process.env.EXCLUDE_DOMAINS),
+    });
+  }
+
+  get active(): boolean {
+    return this.includeLists.length > 0 || this.exclude.length > 0;
+  }
+
+  // Identifies the filter in cache keys
+  get key(): string {
+    return [
+      ...this.includeLists.map((list) => `+${[...list].sort().join(",")}`),
+      `-${[...this.exclude].sort().join(",")}`,
+    ].join(";");
+  }
+
+  // This filter further restricted by a call's own lists
+  narrow(options: DomainFilterOptions): DomainFilter {
+    const narrowed = new DomainFilter(options);
+    narrowed.includeLists.unshift(...this.includeLists);
+    narrowed.exclude.unshift(...this.exclude);
+    return narrowed;
+  }
+
+  // Why the URL is filtered out, or undefined when it is allowed
+  check(url: string): string | undefined {
+    let host: string;
+    try {
+      host = new URL(url).hostname.toLowerCase();
+    } catch {
+      return "invalid URL";
+    }
+
+    const excluded = this.exclude.find((domain) => hostMatches(host, domain));
+    if (excluded) {
+      return `excluded domain ${excluded}`;
+    }
+    if (
+      this.includeLists.some(
+        (list) => !list.some((domain) => hostMatches(host, domain)),
+      )
+    ) {
+      return "not in the included domains";
+    }
+    return undefined;
+  }
+
+  // Query with site: operators that steer Google Search to the allowed sites
+  steer(query: string): string {
+    if (!this.active) {
+      return query;
+    }
+
+    const operators: string[] = [];
+    const include = this.includeLists.at(-1);
+    if (include) {
+      operators.push(include.map((domain) => `site:${domain}`).join(" OR "));
+    }
+    operators.push(...this.exclude.map((domain) => `-site:${domain}`));
+    return `${query}\n\nSearch only with these operators: ${operators.join(" ")}`;
+  }
+
+  /**
+   * Drop citations and search results from filtered domains. Kept citations
+   * are renumbered and the summary's [n] markers rewritten to match; the
+   * dropped sources are returned so they can be reported.
+   */
+  apply<
+    T extends {
+      summary: string;
+      citations: Citation[];
+      searchResults?: SearchResultDetail[];
+    },
+  >(result: T): T & { excludedSources?: ExcludedSource[] } {
+    if (!this.active) {
+      return result;
+    }
+
+    const excludedSources: ExcludedSource[] = [];
+    const seen = new Set<string>();
+    const exclude = (title: string, url: string, reason: string) => {
+      if (!seen.has(url)) {
+        seen.add(url);
+        excludedSources.push({ title, url, reason });
+      }
+    };
+
+    const numbers = new Map<number, number>();
+    const citations: Citation[] = [];
+    for (const citation of result.citations) {
+      const reason = this.check(citation.url);
+      if (reason) {
+        exclude(citation.title, citation.url, reason);
+      } else {
+        numbers.set(citation.number, citations.length + 1);
+        citations.push({ ...citation, number: citations.length + 1 });
+      }
+    }
+
+    const searchResults = result.searchResults?.filter((searchResult) => {
+      const reason = this.check(searchResult.url);
+      if (reason) {
+        exclude(searchResult.title, searchResult.url, reason);
+      }
+      return !reason;
+    });
+
+    const summary = result.summary.replace(/\[(\d+)\]/g, (_, number) => {
+      const renumbered = numbers.get(Number(number));
+      return renumbered ? `[${renumbered}]` : "";
+    });
+
+    return {
+      ...result,
+      summary,
+      citations,
+      ...(searchResults && { searchResults }),
+      ...(excludedSources.length > 0 && { excludedSources }),
+    };
+  }
+}
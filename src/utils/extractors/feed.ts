@@ -0,0 +1,156 @@
+import type { Extractor } from "./types";
+
+interface FeedItem {
+  title: string;
+  link?: string;
+  date?: string; // ISO 8601
+  summary?: string;
+}
+
+const MAX_SUMMARY_LENGTH = 500;
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point =
+        code[1].toLowerCase() === "x"
+          ? Number.parseInt(code.slice(2), 16)
+          : Number.parseInt(code.slice(1), 10);
+      return Number.isNaN(point) ? entity : String.fromCodePoint(point);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Text of the first <name> element in the XML fragment; CDATA sections and
+// any markup inside (e.g. HTML descriptions) are reduced to plain text
+function elementText(xml: string, name: string): string | undefined {
+  const match = xml.match(
+    new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, "i"),
+  );
+  if (!match) {
+    return undefined;
+  }
+
+  const text = match[1]
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) =>
+      data.replace(/</g, "&lt;").replace(/>/g, "&gt;"),
+    )
+    .replace(/<[^>]*>/g, " ");
+  // Entity-escaped HTML (common in RSS descriptions) is stripped once decoded
+  const decoded = decodeEntities(text)
+    .replace(/<[^>]*>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return decoded || undefined;
+}
+
+// Atom links are <link href="..."/>, preferring rel="alternate"
+function atomLink(entry: string): string | undefined {
+  const links = [...entry.matchAll(/<link\b([^>]*)>/gi)].map(
+    (match) => match[1],
+  );
+  const href = (attributes: string) =>
+    attributes.match(/\bhref\s*=\s*["']([^"']+)["']/i)?.[1];
+  const alternate = links.find(
+    (attributes) =>
+      !/\brel\s*=/i.test(attributes) ||
+      /\brel\s*=\s*["']alternate["']/i.test(attributes),
+  );
+  const link = alternate ?? links[0];
+  return link ? href(link) : undefined;
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  const time = value ? Date.parse(value) : Number.NaN;
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function truncate(text: string | undefined): string | undefined {
+  return text && text.length > MAX_SUMMARY_LENGTH
+    ? `${text.slice(0, MAX_SUMMARY_LENGTH)}...`
+    : text;
+}
+
+/**
+ * RSS 2.0 and Atom feeds as a Markdown list of their items. The newest item
+ * date counts as the feed's publication date.
+ */
+export const feedExtractor: Extractor = {
+  name: "feed",
+  contentTypes: [
+    "application/rss+xml",
+    "application/atom+xml",
+    "application/xml",
+    "text/xml",
+  ],
+
+  async extract(response) {
+    const xml = response.text();
+    const isAtom = /<feed\b/i.test(xml);
+    if (!isAtom && !/<(rss|rdf:RDF)\b/i.test(xml)) {
+      throw new Error("XML document is not an RSS or Atom feed");
+    }
+
+    const blocks = [
+      ...xml.matchAll(
+        isAtom ? /<entry\b[\s\S]*?<\/entry>/gi : /<item\b[\s\S]*?<\/item>/gi,
+      ),
+    ].map((match) => match[0]);
+    const items: FeedItem[] = blocks.map((block) => ({
+      title: elementText(block, "title") ?? "Untitled",
+      link: isAtom ? atomLink(block) : elementText(block, "link"),
+      date: toIsoDate(
+        isAtom
+          ? (elementText(block, "published") ?? elementText(block, "updated"))
+          : (elementText(block, "pubDate") ?? elementText(block, "dc:date")),
+      ),
+      summary: truncate(
+        isAtom
+          ? (elementText(block, "summary") ?? elementText(block, "content"))
+          : elementText(block, "description"),
+      ),
+    }));
+
+    // The feed's own title and dates come before the first item
+    const firstItem = xml.search(isAtom ? /<entry\b/i : /<item\b/i);
+    const header = firstItem === -1 ? xml : xml.slice(0, firstItem);
+    const title = elementText(header, "title");
+    let markdown = title ? `# ${title}\n\n` : "";
+    for (const item of items) {
+      markdown += item.link
+        ? `## [${item.title}](${item.link})\n`
+        : `## ${item.title}\n`;
+      if (item.date) {
+        markdown += `*${item.date.slice(0, 10)}*\n`;
+      }
+      if (item.summary) {
+        markdown += `\n${item.summary}\n`;
+      }
+      markdown += "\n";
+    }
+
+    const newest = items
+      .map((item) => item.date)
+      .filter((date): date is string => date !== undefined)
+      .sort()
+      .at(-1);
+    const updated = toIsoDate(
+      elementText(header, isAtom ? "updated" : "lastBuildDate"),
+    );
+    return {
+      title,
+      markdown: markdown.trim() || "This feed has no items.",
+      ...(newest && { publishedAt: newest }),
+      ...(updated && { modifiedAt: updated }),
+    };
+  },
+};
@@ -0,0 +1,37 @@
+import { extractPageDates } from "../page-dates";
+import type { Extractor } from "./types";
+
+// Dynamic import for ESM module
+let readabilityModule: any = null;
+const getReadability = async () => {
+  if (!readabilityModule) {
+    readabilityModule = await import("@mizchi/readability");
+  }
+  return readabilityModule;
+};
+
+// Article content of HTML pages via readability, converted to Markdown
+export const htmlExtractor: Extractor = {
+  name: "html",
+  contentTypes: ["text/html", "application/xhtml+xml"],
+
+  async extract(response) {
+    const html = response.text();
+    const { extract, toMarkdown } = await getReadability();
+
+    const extracted = extract(html, {
+      charThreshold: 100,
+      url: response.url,
+    });
+
+    if (!extracted || !extracted.root) {
+      throw new Error("Failed to extract content from URL");
+    }
+
+    return {
+      title: extracted.metadata?.title,
+      markdown: toMarkdown(extracted.root),
+      ...extractPageDates(html, extracted.metadata),
+    };
+  },
+};
@@ -0,0 +1,57 @@
+import type { SafeResponse } from "../safe-fetch";
+import { feedExtractor } from "./feed";
+import { htmlExtractor } from "./html";
+import { jsonExtractor } from "./json";
+import { pdfExtractor } from "./pdf";
+import { textExtractor } from "./text";
+import type { ExtractedDocument, Extractor } from "./types";
+
+export type { ExtractedDocument, Extractor } from "./types";
+
+const EXTRACTORS: Extractor[] = [
+  htmlExtractor,
+  pdfExtractor,
+  textExtractor,
+  jsonExtractor,
+  feedExtractor,
+];
+
+// Every content type some extractor handles
+export const EXTRACTABLE_CONTENT_TYPES = EXTRACTORS.flatMap(
+  (extractor) => extractor.contentTypes,
+);
+
+// Guess the format of a response without a Content-Type from its first bytes
+function sniff(response: SafeResponse): Extractor {
+  const start = new TextDecoder()
+    .decode(response.body.subarray(0, 512))
+    .trimStart();
+  if (start.startsWith("%PDF-")) {
+    return pdfExtractor;
+  }
+  if (/^(<\?xml[^>]*>\s*)?<(rss|feed|rdf:RDF)\b/i.test(start)) {
+    return feedExtractor;
+  }
+  if (/^[{[]/.test(start)) {
+    return jsonExtractor;
+  }
+  return htmlExtractor;
+}
+
+/**
+ * Readable Markdown of a fetched document, using the extractor for its
+ * content type (HTML, PDF, plain text/Markdown, JSON or RSS/Atom)
+ */
+export async function extractDocument(
+  response: SafeResponse,
+): Promise<ExtractedDocument> {
+  const extractor = response.contentType
+    ? EXTRACTORS.find((candidate) =>
+        candidate.contentTypes.includes(response.contentType),
+      )
+    : sniff(response);
+  if (!extractor) {
+    throw new Error(`No extractor for content type ${response.contentType}`);
+  }
+  return extractor.extract(response);
+}
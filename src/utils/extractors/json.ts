@@ -0,0 +1,24 @@
+import { type Extractor, titleFromUrl } from "./types";
+
+// JSON documents pretty-printed in a fenced code block
+export const jsonExtractor: Extractor = {
+  name: "json",
+  contentTypes: ["application/json", "application/ld+json", "text/json"],
+
+  async extract(response) {
+    let value: unknown;
+    try {
+      value = JSON.parse(response.text());
+    } catch (error) {
+      throw new Error(
+        `Invalid JSON document: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    const title = (value as { title?: unknown } | null)?.title;
+    return {
+      title: typeof title === "string" ? title : titleFromUrl(response.url),
+      markdown: `\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``,
+    };
+  },
+};
@@ -0,0 +1,68 @@
+import { type Extractor, titleFromUrl } from "./types";
+
+// Dynamic import for ESM module
+let unpdfModule: typeof import("unpdf") | null = null;
+const getUnpdf = async () => {
+  if (!unpdfModule) {
+    unpdfModule = await import("unpdf");
+  }
+  return unpdfModule;
+};
+
+// PDF date string such as "D:20240115103000+01'00'" as ISO 8601
+export function parsePdfDate(value: unknown): string | undefined {
+  const match =
+    typeof value === "string" &&
+    value.match(
+      /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:(Z)|([+-])(\d{2})'?(\d{2})?'?)?/,
+    );
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month = "01", day = "01", hour = "00", minute = "00"] = match;
+  const second = match[6] ?? "00";
+  const zone = match[8] ? `${match[8]}${match[9]}:${match[10] ?? "00"}` : "Z";
+  const time = Date.parse(
+    `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`,
+  );
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+// Text of every page of a PDF, with the title and dates of its info
+// dictionary
+export const pdfExtractor: Extractor = {
+  name: "pdf",
+  contentTypes: ["application/pdf"],
+
+  async extract(response) {
+    const { extractText, getDocumentProxy, getMeta } = await getUnpdf();
+    // pdf.js logs warnings to stdout, which is the MCP channel over stdio
+    const document = await getDocumentProxy(new Uint8Array(response.body), {
+      verbosity: 0,
+    });
+    try {
+      const { text } = await extractText(document);
+      const pages = text.map((page) => page.trim()).filter(Boolean);
+      if (pages.length === 0) {
+        throw new Error("PDF has no extractable text (it may be scanned)");
+      }
+
+      const { info } = await getMeta(document);
+      const title =
+        typeof info?.Title === "string" && info.Title.trim()
+          ? info.Title.trim()
+          : titleFromUrl(response.url);
+      const publishedAt = parsePdfDate(info?.CreationDate);
+      const modifiedAt = parsePdfDate(info?.ModDate);
+      return {
+        title,
+        markdown: pages.join("\n\n"),
+        ...(publishedAt && { publishedAt }),
+        ...(modifiedAt && { modifiedAt }),
+      };
+    } finally {
+      await document.destroy();
+    }
+  },
+};
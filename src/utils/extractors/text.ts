@@ -0,0 +1,13 @@
+import { type Extractor, titleFromUrl } from "./types";
+
+// Plain text and Markdown are already readable, so they pass through
+export const textExtractor: Extractor = {
+  name: "text",
+  contentTypes: ["text/plain", "text/markdown", "text/x-markdown"],
+
+  async extract(response) {
+    const markdown = response.text().replace(/\r\n/g, "\n").trim();
+    const heading = markdown.match(/^#\s+(.+)$/m)?.[1]?.trim();
+    return { title: heading ?? titleFromUrl(response.url), markdown };
+  },
+};
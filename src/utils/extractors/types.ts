@@ -0,0 +1,25 @@
+import type { SafeResponse } from "../safe-fetch";
+
+// Readable content of a fetched document, before excerpt/summary processing
+export interface ExtractedDocument {
+  title?: string;
+  markdown: string;
+  publishedAt?: string; // ISO 8601
+  modifiedAt?: string;
+}
+
+export interface Extractor {
+  readonly name: string;
+  readonly contentTypes: string[]; // Media types this extractor handles
+  extract(response: SafeResponse): Promise<ExtractedDocument>;
+}
+
+// Last path segment of the URL, as a title for formats without one
+export function titleFromUrl(url: string): string | undefined {
+  try {
+    const segment = new URL(url).pathname.split("/").filter(Boolean).at(-1);
+    return segment ? decodeURIComponent(segment) : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -46,12 +46,17 @@ export function formatBatchResults(
       error: result.error,
       searchResultCount: result.searchResultCount,
       targetResultCount: result.targetResultCount,
+      credential: result.credential,
+      excludedSources: result.excludedSources,
     })),
   };
 }
 
+export const DEFAULT_MAX_SEARCH_RESULTS = 5;
+
 export function extractSearchResults(
   groundingMetadata?: GroundingMetadata,
+  maxResults = DEFAULT_MAX_SEARCH_RESULTS,
 ): SearchResultDetail[] {
   if (!groundingMetadata || !groundingMetadata.groundingSupports) {
     return [];
@@ -65,25 +70,27 @@ export function extractSearchResults(
       support.groundingChunkIndices &&
       support.groundingChunkIndices.length > 0
     ) {
-      const chunkIndex = support.groundingChunkIndices[0];
-      const chunk = groundingMetadata.groundingChunks?.[chunkIndex];
-
-      if (chunk?.web) {
-        const url = chunk.web.uri;
-        if (!seen.has(url)) {
-          seen.add(url);
-          results.push({
-            title: chunk.web.title || "Untitled",
-            url,
-            snippet: support.segment?.text || "",
-          });
+      // A support may be grounded by several chunks; collect all of them so
+      // larger maxResults values can actually surface more sources
+      for (const chunkIndex of support.groundingChunkIndices) {
+        const chunk = groundingMetadata.groundingChunks?.[chunkIndex];
+
+        if (chunk?.web) {
+          const url = chunk.web.uri;
+          if (!seen.has(url)) {
+            seen.add(url);
+            results.push({
+              title: chunk.web.title || "Untitled",
+              url,
+              snippet: support.segment?.text || "",
+            });
+          }
         }
       }
     }
   }
 
-  const MAX_SEARCH_RESULTS = 5;
-  return results.slice(0, MAX_SEARCH_RESULTS);
+  return results.slice(0, Math.max(0, maxResults));
 }
 
 export function insertCitations(
@@ -0,0 +1,103 @@
+import type { ScrapedContent } from "../types/index";
+
+export type FreshnessPeriod = "day" | "week" | "month" | "year";
+
+// A period back from now, or an explicit range of YYYY-MM-DD dates
+export type Freshness = FreshnessPeriod | { from?: string; to?: string };
+
+const PERIOD_DAYS: Record<FreshnessPeriod, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365,
+};
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface FreshnessOptions {
+  freshness?: Freshness;
+}
+
+export function isFreshnessPeriod(value: unknown): value is FreshnessPeriod {
+  return typeof value === "string" && value in PERIOD_DAYS;
+}
+
+export function isValidDate(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    DATE_PATTERN.test(value) &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+function isoDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Date range sources should fall in. Steers the grounded query with
+ * after:/before: operators and flags sources dated outside the range as
+ * stale.
+ */
+export class FreshnessFilter {
+  readonly from?: string;
+  readonly to?: string;
+  readonly label: string; // "past month" or "2024-01-01 to 2024-06-30"
+
+  // Filter for a call's freshness option, if it has one
+  static fromOptions(options: FreshnessOptions): FreshnessFilter | undefined {
+    return options.freshness
+      ? new FreshnessFilter(options.freshness)
+      : undefined;
+  }
+
+  constructor(freshness: Freshness, now = Date.now()) {
+    if (typeof freshness === "string") {
+      this.from = isoDay(now - PERIOD_DAYS[freshness] * 24 * 60 * 60 * 1000);
+      this.label = `past ${freshness}`;
+    } else {
+      this.from = freshness.from;
+      this.to = freshness.to;
+      this.label = [
+        this.from ?? "any time",
+        this.to ? `to ${this.to}` : "onwards",
+      ].join(" ");
+    }
+  }
+
+  // Identifies the range in cache keys; periods move with the current day
+  get key(): string {
+    return `${this.from ?? ""}..${this.to ?? ""}`;
+  }
+
+  steer(query: string): string {
+    const operators = [
+      this.from && `after:${this.from}`,
+      this.to && `before:${this.to}`,
+    ].filter(Boolean);
+    return operators.length > 0
+      ? `${query}\n\nOnly use sources published in this range: ${operators.join(" ")}`
+      : query;
+  }
+
+  // Whether a page falls outside the range: last updated before it starts,
+  // or first published after it ends. An undated page is never stale.
+  isStale(dates: Pick<ScrapedContent, "publishedAt" | "modifiedAt">): boolean {
+    const latest = (dates.modifiedAt ?? dates.publishedAt)?.slice(0, 10);
+    const earliest = (dates.publishedAt ?? dates.modifiedAt)?.slice(0, 10);
+    return (
+      (this.from !== undefined && latest !== undefined && latest < this.from) ||
+      (this.to !== undefined && earliest !== undefined && earliest > this.to)
+    );
+  }
+
+  mark(content: ScrapedContent): ScrapedContent {
+    return this.isStale(content) ? { ...content, stale: true } : content;
+  }
+}
+
+// Newest first by latest known date; undated pages keep their order at the end
+export function sortByDate(contents: ScrapedContent[]): ScrapedContent[] {
+  const date = (content: ScrapedContent) =>
+    content.modifiedAt ?? content.publishedAt ?? "";
+  return [...contents].sort((a, b) => date(b).localeCompare(date(a)));
+}
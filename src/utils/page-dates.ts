@@ -0,0 +1,132 @@
+export interface PageDates {
+  publishedAt?: string; // ISO 8601
+  modifiedAt?: string; // ISO 8601
+}
+
+// <meta name/property/itemprop> keys, most specific first
+const PUBLISHED_KEYS = [
+  "article:published_time",
+  "og:published_time",
+  "datepublished",
+  "dc.date.issued",
+  "dcterms.created",
+  "dc.date",
+  "pubdate",
+  "publish_date",
+  "publishdate",
+  "parsely-pub-date",
+  "date",
+];
+const MODIFIED_KEYS = [
+  "article:modified_time",
+  "og:updated_time",
+  "datemodified",
+  "dcterms.modified",
+  "last-modified",
+];
+
+const META_TAG = /<meta\b[^>]*>/gi;
+const JSON_LD =
+  /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+
+function attributes(tag: string): Map<string, string> {
+  const result = new Map<string, string>();
+  for (const match of tag.matchAll(ATTRIBUTE)) {
+    result.set(match[1].toLowerCase(), match[2] ?? match[3] ?? match[4]);
+  }
+  return result;
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  if (typeof value !== "string" || !value.trim()) {
+    return undefined;
+  }
+  const time = Date.parse(value.trim());
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+// datePublished/dateModified of the first JSON-LD node that has them,
+// including nodes nested in @graph arrays
+function jsonLdDates(html: string): PageDates {
+  const nodes: unknown[] = [];
+  for (const match of html.matchAll(JSON_LD)) {
+    try {
+      nodes.push(JSON.parse(match[1]));
+    } catch {
+      // Ignore malformed blocks
+    }
+  }
+
+  while (nodes.length > 0) {
+    const node = nodes.shift();
+    if (Array.isArray(node)) {
+      nodes.push(...node);
+      continue;
+    }
+    if (!node || typeof node !== "object") {
+      continue;
+    }
+
+    const record = node as Record<string, unknown>;
+    const dates = {
+      publishedAt: toIsoDate(record.datePublished ?? record.dateCreated),
+      modifiedAt: toIsoDate(record.dateModified),
+    };
+    if (dates.publishedAt || dates.modifiedAt) {
+      return dates;
+    }
+    if (record["@graph"]) {
+      nodes.push(record["@graph"]);
+    }
+  }
+  return {};
+}
+
+function metaDates(html: string): PageDates {
+  const values = new Map<string, string>();
+  for (const [tag] of html.matchAll(META_TAG)) {
+    const attrs = attributes(tag);
+    const key = (
+      attrs.get("property") ??
+      attrs.get("name") ??
+      attrs.get("itemprop") ??
+      attrs.get("http-equiv")
+    )?.toLowerCase();
+    const content = attrs.get("content");
+    if (key && content && !values.has(key)) {
+      values.set(key, content);
+    }
+  }
+
+  const first = (keys: string[]) =>
+    keys.map((key) => toIsoDate(values.get(key))).find(Boolean);
+  return {
+    publishedAt: first(PUBLISHED_KEYS),
+    modifiedAt: first(MODIFIED_KEYS),
+  };
+}
+
+/**
+ * Publication and modification dates of a page, from JSON-LD, then <meta>
+ * tags, then whatever dates the readability metadata carries
+ */
+export function extractPageDates(
+  html: string,
+  metadata?: { publishedTime?: string; modifiedTime?: string },
+): PageDates {
+  const jsonLd = jsonLdDates(html);
+  const meta = metaDates(html);
+  const dates: PageDates = {
+    publishedAt:
+      jsonLd.publishedAt ??
+      meta.publishedAt ??
+      toIsoDate(metadata?.publishedTime),
+    modifiedAt:
+      jsonLd.modifiedAt ?? meta.modifiedAt ?? toIsoDate(metadata?.modifiedTime),
+  };
+
+  return Object.fromEntries(
+    Object.entries(dates).filter(([, value]) => value),
+  ) as PageDates;
+}
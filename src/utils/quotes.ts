@@ -0,0 +1,103 @@
+import type { PageQuote } from "../types/index";
+
+// Line that separates a summary from the quotes the model picked
+const QUOTES_HEADER = /^[ \t]*\**QUOTES:?\**[ \t]*$/im;
+
+// Instruction appended to summary prompts so responses can be split by
+// splitQuotes
+export function quotesInstruction(
+  count: number,
+  query?: string,
+  source = "the text",
+): string {
+  return `After the summary, write a line "QUOTES:" followed by up to ${count} short passages copied word for word from ${source} that are most relevant${query ? " to the question" : ""}, one per line starting with "- ".`;
+}
+
+/**
+ * Split a summary response into the summary and the quoted passages after
+ * its "QUOTES:" line. Responses without one are all summary.
+ */
+export function splitQuotes(response: string): {
+  summary: string;
+  quotes: string[];
+} {
+  const match = QUOTES_HEADER.exec(response);
+  if (!match) {
+    return { summary: response.trim(), quotes: [] };
+  }
+
+  const quotes = response
+    .slice(match.index + match[0].length)
+    .split("\n")
+    .map((line) =>
+      line
+        .trim()
+        .replace(/^(?:[-*>]|\d+\.)\s*/, "")
+        .replace(/^["“](.*)["”]$/, "$1")
+        .trim(),
+    )
+    .filter(Boolean);
+  return { summary: response.slice(0, match.index).trim(), quotes };
+}
+
+// Text with whitespace runs collapsed to one space, and the source position
+// of every character of it
+function collapseWhitespace(text: string): {
+  collapsed: string;
+  positions: number[];
+} {
+  let collapsed = "";
+  const positions: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (collapsed.endsWith(" ")) {
+        continue;
+      }
+      collapsed += " ";
+    } else {
+      collapsed += text[i];
+    }
+    positions.push(i);
+  }
+  return { collapsed, positions };
+}
+
+/**
+ * Find quoted passages in the source text, ignoring differences in
+ * whitespace. Passages that don't appear in the source are dropped, so every
+ * quote returned is verbatim with its offset, line and enclosing heading.
+ */
+export function locateQuotes(
+  source: string,
+  quotes: string[],
+  limit = quotes.length,
+): PageQuote[] {
+  const { collapsed, positions } = collapseWhitespace(source);
+  const located: PageQuote[] = [];
+
+  for (const quote of quotes) {
+    const needle = quote.replace(/\s+/g, " ").trim();
+    const index = needle ? collapsed.indexOf(needle) : -1;
+    if (index === -1) {
+      continue;
+    }
+
+    const offset = positions[index];
+    if (located.some((existing) => existing.offset === offset)) {
+      continue;
+    }
+    const end = positions[index + needle.length - 1] + 1;
+    const before = source.slice(0, offset);
+    const section = [...before.matchAll(/^#{1,6}\s+(.+)$/gm)].at(-1)?.[1];
+    located.push({
+      text: source.slice(offset, end),
+      offset,
+      line: before.split("\n").length,
+      ...(section && { section: section.trim() }),
+    });
+    if (located.length >= limit) {
+      break;
+    }
+  }
+  return located;
+}
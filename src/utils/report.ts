@@ -0,0 +1,123 @@
+import type {
+  BatchSearchResult,
+  BibliographyEntry,
+  EnhancedCitation,
+} from "../types/index";
+
+// Line that separates a synthesized report from the contradictions found
+const CONTRADICTIONS_HEADER = /^[ \t]*\**CONTRADICTIONS:?\**[ \t]*$/im;
+
+// Rewrite [n] markers through the map; markers without a number are dropped
+// and repeats of the same marker collapse into one
+function renumberMarkers(text: string, numbers: Map<number, number>): string {
+  return text
+    .replace(/\[(\d+)\]/g, (_, number) => {
+      const renumbered = numbers.get(Number(number));
+      return renumbered ? `[${renumbered}]` : "";
+    })
+    .replace(/(\[\d+\])(?:\1)+/g, "$1");
+}
+
+/**
+ * Merge the citations of every query into one bibliography. Sources are
+ * deduplicated by URL and numbered in order of first use; each result's
+ * summary markers and citations are renumbered to match.
+ */
+export function mergeBibliography(results: BatchSearchResult[]): {
+  results: BatchSearchResult[];
+  sources: BibliographyEntry[];
+} {
+  const sources: BibliographyEntry[] = [];
+  const byUrl = new Map<string, BibliographyEntry>();
+
+  const merged = results.map((result) => {
+    if (result.error || !result.citations) {
+      return result;
+    }
+
+    const numbers = new Map<number, number>();
+    const citations: EnhancedCitation[] = [];
+    for (const citation of result.citations) {
+      let source = byUrl.get(citation.url);
+      if (!source) {
+        source = { ...citation, number: sources.length + 1, queries: [] };
+        byUrl.set(citation.url, source);
+        sources.push(source);
+      }
+      if (!source.queries.includes(result.query)) {
+        source.queries.push(result.query);
+      }
+      source.verification ??= citation.verification;
+
+      numbers.set(citation.number, source.number);
+      if (!citations.some((existing) => existing.number === source.number)) {
+        citations.push({ ...citation, number: source.number });
+      }
+    }
+
+    return {
+      ...result,
+      summary: result.summary && renumberMarkers(result.summary, numbers),
+      citations,
+    };
+  });
+
+  return { results: merged, sources };
+}
+
+// The queries' answers one after another under their questions
+export function stitchAnswers(results: BatchSearchResult[]): string {
+  return results
+    .filter((result) => !result.error && result.summary)
+    .map((result) => `## ${result.query}\n\n${result.summary}`)
+    .join("\n\n");
+}
+
+/**
+ * Prompt asking for one report over the queries' renumbered answers. With a
+ * question, the report is a long-form answer to it; notes are excerpts of the
+ * sources labelled with their [n].
+ */
+export function synthesisPrompt(
+  results: BatchSearchResult[],
+  options: { question?: string; notes?: string } = {},
+): string {
+  const task = options.question
+    ? `Write a thorough, well-structured long-form report in Markdown that answers this question: "${options.question}". Use the answers and notes below, cover every aspect they address without repeating yourself, and say what remains uncertain.`
+    : "Merge them into a single well-structured report in Markdown that covers every question without repeating itself.";
+  const notes = options.notes
+    ? `\n\nNotes from the sources:\n\n${options.notes}`
+    : "";
+  return `Below are answers to related research questions. Their [n] markers refer to one shared list of sources. ${task} Keep the [n] markers after the statements they support and don't add any markers of your own. After the report, write a line "CONTRADICTIONS:" followed by one line per point on which the answers disagree, each starting with "- " and naming both sides with their markers, or "- None" if they agree.\n\n${stitchAnswers(results)}${notes}`;
+}
+
+/**
+ * Split a synthesis response into the report and the contradictions listed
+ * after its "CONTRADICTIONS:" line. Markers for sources that don't exist are
+ * removed from both.
+ */
+export function splitSynthesis(
+  response: string,
+  sourceCount: number,
+): { report: string; contradictions: string[] } {
+  const numbers = new Map(
+    Array.from({ length: sourceCount }, (_, i) => [i + 1, i + 1]),
+  );
+  const match = CONTRADICTIONS_HEADER.exec(response);
+  const report = renumberMarkers(
+    match ? response.slice(0, match.index) : response,
+    numbers,
+  ).trim();
+  if (!match) {
+    return { report, contradictions: [] };
+  }
+
+  const contradictions = response
+    .slice(match.index + match[0].length)
+    .split("\n")
+    .map((line) =>
+      renumberMarkers(line.trim().replace(/^[-*]\s*/, ""), numbers),
+    )
+    .filter((line) => line && !/^none\.?$/i.test(line));
+  return { report, contradictions };
+}
@@ -0,0 +1,71 @@
+import type { BatchSearchResult, BibliographyEntry } from "../types/index";
+import { stitchAnswers } from "./report";
+
+const MAX_NOTE_LENGTH = 1000;
+
+// Prompt for the first round's search queries
+export function planPrompt(question: string, count: number): string {
+  return `You are planning web research on this question: "${question}"\n\nWrite up to ${count} Google search queries that together cover the question: its main parts, the facts needed to answer it and the viewpoints worth comparing. Write one query per line starting with "- " and nothing else.`;
+}
+
+// Prompt asking what the findings so far leave open, as follow-up queries
+export function gapPrompt(
+  question: string,
+  results: BatchSearchResult[],
+  count: number,
+): string {
+  return `You are researching this question: "${question}"\n\nThese are the findings so far, under the search queries that produced them:\n\n${stitchAnswers(results)}\n\nWhat is still missing to answer the question thoroughly: gaps, open questions, claims that need checking, conflicting findings? Write up to ${count} new Google search queries that would fill those gaps, one per line starting with "- ". Don't repeat the queries above. If the findings already answer the question, write only "NONE".`;
+}
+
+/**
+ * Queries listed in a planning response, without the ones already run
+ * (compared case-insensitively) and at most limit of them. "NONE" means no
+ * more queries are needed.
+ */
+export function parseQueries(
+  response: string,
+  limit: number,
+  done: string[] = [],
+): string[] {
+  const seen = new Set(done.map((query) => query.toLowerCase()));
+  const queries: string[] = [];
+  for (const line of response.split("\n")) {
+    const query = line
+      .trim()
+      .replace(/^(?:[-*]|\d+[.)])\s*/, "")
+      .replace(/^["“](.*)["”]$/, "$1")
+      .trim();
+    if (!query || /^none\.?$/i.test(query) || seen.has(query.toLowerCase())) {
+      continue;
+    }
+    seen.add(query.toLowerCase());
+    queries.push(query);
+    if (queries.length >= limit) {
+      break;
+    }
+  }
+  return queries;
+}
+
+// Scraped excerpts of the bibliography's pages, labelled with their numbers
+export function researchNotes(
+  results: BatchSearchResult[],
+  sources: BibliographyEntry[],
+): string {
+  const notes = new Map<number, string>();
+  for (const result of results) {
+    for (const page of result.scrapedContent ?? []) {
+      const source = sources.find((entry) => entry.url === page.url);
+      if (source && page.content && !notes.has(source.number)) {
+        notes.set(
+          source.number,
+          `[${source.number}] ${source.title}: ${page.content.slice(0, MAX_NOTE_LENGTH)}`,
+        );
+      }
+    }
+  }
+  return [...notes.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, note]) => note)
+    .join("\n\n");
+}
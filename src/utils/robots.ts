@@ -0,0 +1,273 @@
+import { abortable } from "./abort";
+import { SafeFetcher } from "./safe-fetch";
+import { getScheduler, type Priority, type Scheduler } from "./scheduler";
+
+// Product token matched against robots.txt User-agent lines
+export const ROBOTS_USER_AGENT = "GeminiGroundingMCP";
+export const USER_AGENT = `Mozilla/5.0 (compatible; ${ROBOTS_USER_AGENT}/1.0)`;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number; // Specificity of the path; the longest match wins
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelay?: number; // Milliseconds
+  unavailable?: string; // Why robots.txt couldn't be read (e.g. "HTTP 503")
+}
+
+export interface RobotsDecision {
+  allowed: boolean;
+  crawlDelay?: number; // Milliseconds the host asks for between requests
+  // Set when the site is disallowed only because robots.txt couldn't be read
+  unavailable?: string;
+}
+
+interface CacheEntry {
+  rules: RobotsRules;
+  expiresAt: number;
+}
+
+// Robots files larger than this are cut off, as RFC 9309 allows
+const MAX_ROBOTS_SIZE = 500 * 1024;
+const MAX_CRAWL_DELAY = 10000;
+// Unreachable robots.txt files are retried sooner than fetched ones expire
+const UNREACHABLE_TTL = 5 * 60 * 1000;
+
+const ALLOW_ALL: RobotsRules = { rules: [] };
+const DISALLOW_ALL: RobotsRules = {
+  rules: [{ allow: false, pattern: /^\//, length: 1 }],
+};
+
+function toPattern(path: string): RegExp {
+  const anchored = path.endsWith("$");
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Rules of the robots.txt groups that apply to our user agent: the groups
+ * naming it, or the "*" groups when none do
+ */
+export function parseRobotsTxt(text: string): RobotsRules {
+  const ours: string[][] = [];
+  const wildcard: string[][] = [];
+  let agents: string[] = [];
+  let lines: string[] = [];
+  let inRules = false;
+
+  const flush = () => {
+    if (agents.some((agent) => agent === ROBOTS_USER_AGENT.toLowerCase())) {
+      ours.push(lines);
+    } else if (agents.includes("*")) {
+      wildcard.push(lines);
+    }
+  };
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "user-agent") {
+      // A User-agent line after rules starts a new group
+      if (inRules) {
+        flush();
+        agents = [];
+        lines = [];
+        inRules = false;
+      }
+      agents.push(value.toLowerCase());
+    } else if (["allow", "disallow", "crawl-delay"].includes(key)) {
+      inRules = true;
+      lines.push(`${key}:${value}`);
+    }
+  }
+  flush();
+
+  const result: RobotsRules = { rules: [] };
+  for (const line of (ours.length > 0 ? ours : wildcard).flat()) {
+    const separator = line.indexOf(":");
+    const key = line.slice(0, separator);
+    const value = line.slice(separator + 1);
+
+    if (key === "crawl-delay") {
+      const seconds = Number.parseFloat(value);
+      if (Number.isFinite(seconds) && seconds > 0) {
+        result.crawlDelay = Math.min(seconds * 1000, MAX_CRAWL_DELAY);
+      }
+    } else if (value) {
+      // An empty Disallow allows everything, so it adds no rule
+      result.rules.push({
+        allow: key === "allow",
+        pattern: toPattern(value),
+        length: value.length,
+      });
+    }
+  }
+  return result;
+}
+
+// Whether the rules let us fetch the path (with its query string); the
+// longest matching rule wins and Allow wins ties
+export function isAllowed(rules: RobotsRules, path: string): boolean {
+  if (path === "/robots.txt") {
+    return true;
+  }
+
+  let match: RobotsRule | undefined;
+  for (const rule of rules.rules) {
+    if (
+      rule.pattern.test(path) &&
+      (!match ||
+        rule.length > match.length ||
+        (rule.length === match.length && rule.allow))
+    ) {
+      match = rule;
+    }
+  }
+  return match?.allow ?? true;
+}
+
+/**
+ * Fetches, caches and applies robots.txt for the scraper. Hosts listed in
+ * ROBOTS_IGNORE_HOSTS (e.g. internal sites) are never checked.
+ */
+export class RobotsChecker {
+  private cache = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<RobotsRules>>();
+  private cacheTTL: number;
+  private fetchTimeout: number;
+  private ignoreHosts: string[];
+  private scheduler: Scheduler;
+  private fetcher: SafeFetcher;
+
+  constructor() {
+    this.scheduler = getScheduler();
+    this.fetcher = new SafeFetcher();
+    this.cacheTTL =
+      Number.parseInt(process.env.ROBOTS_CACHE_TTL || "86400", 10) * 1000;
+    this.fetchTimeout = Number.parseInt(
+      process.env.SCRAPE_TIMEOUT || "10000",
+      10,
+    );
+    this.ignoreHosts = (process.env.ROBOTS_IGNORE_HOSTS || "")
+      .split(",")
+      .map((host) => host.trim().toLowerCase().replace(/^\*\./, ""))
+      .filter(Boolean);
+  }
+
+  async check(
+    url: string,
+    options: { priority?: Priority; signal?: AbortSignal } = {},
+  ): Promise<RobotsDecision> {
+    const { origin, hostname, pathname, search } = new URL(url);
+    if (this._isIgnored(hostname.toLowerCase())) {
+      return { allowed: true };
+    }
+
+    const rules = await abortable(
+      this._rules(origin, options.priority),
+      options.signal,
+    );
+    return {
+      allowed: isAllowed(rules, `${pathname}${search}`),
+      crawlDelay: rules.crawlDelay,
+      ...(rules.unavailable && { unavailable: rules.unavailable }),
+    };
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private _isIgnored(hostname: string): boolean {
+    return this.ignoreHosts.some(
+      (host) => hostname === host || hostname.endsWith(`.${host}`),
+    );
+  }
+
+  // Rules for the origin from the cache or a fetch shared by concurrent
+  // callers
+  private _rules(origin: string, priority?: Priority): Promise<RobotsRules> {
+    const cached = this.cache.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return Promise.resolve(cached.rules);
+    }
+
+    const pending = this.pending.get(origin);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = this._fetchRules(origin, priority)
+      .then(({ rules, ttl }) => {
+        this.cache.set(origin, { rules, expiresAt: Date.now() + ttl });
+        return rules;
+      })
+      .finally(() => {
+        this.pending.delete(origin);
+      });
+
+    this.pending.set(origin, promise);
+    return promise;
+  }
+
+  // Missing files (4xx) allow everything; server errors, rate limiting (429)
+  // and unreachable hosts disallow everything until the file can be read
+  // (RFC 9309)
+  private async _fetchRules(
+    origin: string,
+    priority?: Priority,
+  ): Promise<{ rules: RobotsRules; ttl: number }> {
+    let unavailable: string;
+    try {
+      const response = await this.scheduler.schedule(
+        `host:${new URL(origin).host}`,
+        () =>
+          this.fetcher.fetch(`${origin}/robots.txt`, {
+            headers: { "User-Agent": USER_AGENT },
+            signal: AbortSignal.timeout(this.fetchTimeout),
+            contentTypes: null,
+            maxBytes: MAX_ROBOTS_SIZE,
+            truncate: true,
+          }),
+        { priority },
+      );
+
+      if (response.ok) {
+        return { rules: parseRobotsTxt(response.text()), ttl: this.cacheTTL };
+      }
+      if (
+        response.status >= 400 &&
+        response.status < 500 &&
+        response.status !== 429
+      ) {
+        return { rules: ALLOW_ALL, ttl: this.cacheTTL };
+      }
+      unavailable = `HTTP ${response.status}`;
+      console.error(
+        `robots.txt for ${origin} returned ${response.status}; treating the site as disallowed`,
+      );
+    } catch (error) {
+      unavailable = error instanceof Error ? error.message : String(error);
+      console.error(
+        `Failed to fetch robots.txt for ${origin}; treating the site as disallowed:`,
+        unavailable,
+      );
+    }
+    return {
+      rules: { ...DISALLOW_ALL, unavailable },
+      ttl: Math.min(UNREACHABLE_TTL, this.cacheTTL),
+    };
+  }
+}
@@ -0,0 +1,346 @@
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { Agent, type Response, fetch as undiciFetch } from "undici";
+import { abortable } from "./abort";
+import { EXTRACTABLE_CONTENT_TYPES } from "./extractors/index";
+
+export type UnsafeFetchKind =
+  | "unsafe-url"
+  | "too-many-redirects"
+  | "too-large"
+  | "unsupported-content-type";
+
+export class UnsafeFetchError extends Error {
+  constructor(
+    public readonly kind: UnsafeFetchKind,
+    message: string,
+  ) {
+    super(message);
+    this.name = "UnsafeFetchError";
+  }
+}
+
+export interface SafeFetcherOptions {
+  // Resolves host names for the checks; defaults to the system resolver
+  resolve?: (hostname: string) => Promise<LookupAddress[]>;
+}
+
+export interface SafeFetchOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  // Content types accepted for 2xx responses; defaults to
+  // SCRAPE_CONTENT_TYPES, null accepts any
+  contentTypes?: string[] | null;
+  maxBytes?: number;
+  truncate?: boolean; // Cut oversized bodies off instead of failing
+}
+
+export interface SafeResponse {
+  url: string; // After redirects
+  status: number;
+  ok: boolean;
+  contentType: string; // Media type without parameters, lowercase
+  body: Uint8Array; // Empty for non-2xx responses
+  text: () => string;
+}
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved
+// ranges, including cloud metadata endpoints such as 169.254.169.254
+const BLOCKED_SUBNETS: Array<[string, number, "ipv4" | "ipv6"]> = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 3, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  // 6to4 embeds any IPv4 address, private ones included; the relay
+  // mechanism is deprecated, so the whole range is refused
+  ["2002::", 16, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+const blockList = new BlockList();
+for (const [network, prefix, type] of BLOCKED_SUBNETS) {
+  blockList.addSubnet(network, prefix, type);
+}
+
+// IPv4 address embedded in an IPv4-mapped (::ffff:0:0/96) or NAT64
+// (64:ff9b::/96) IPv6 address
+function embeddedIPv4(address: string): string | undefined {
+  const match = address
+    .toLowerCase()
+    .match(
+      /^(?:::ffff:|64:ff9b::)(?:(\d+\.\d+\.\d+\.\d+)|([\da-f]{1,4}):([\da-f]{1,4}))$/,
+    );
+  if (!match) {
+    return undefined;
+  }
+  if (match[1]) {
+    return match[1];
+  }
+  const high = Number.parseInt(match[2], 16);
+  const low = Number.parseInt(match[3], 16);
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const v4 = isIP(address) === 4 ? address : embeddedIPv4(address);
+  return v4 ? blockList.check(v4, "ipv4") : blockList.check(address, "ipv6");
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * fetch() for URLs from model output or MCP clients. Every hop of a redirect
+ * chain is checked: the scheme must be allowed and the host must not resolve
+ * to a private or link-local address unless it is listed in
+ * SCRAPE_ALLOW_PRIVATE_HOSTS. The addresses are checked again when each
+ * connection is opened, so a DNS answer that changes after the first check
+ * can't point the request somewhere else. Bodies are streamed up to a size
+ * limit.
+ */
+export class SafeFetcher {
+  private resolveHost: (hostname: string) => Promise<LookupAddress[]>;
+  private dispatcher: Agent;
+  private allowedSchemes: string[];
+  private allowPrivateHosts: string[];
+  private maxRedirects: number;
+  private maxBytes: number;
+  private contentTypes: string[];
+
+  constructor(options: SafeFetcherOptions = {}) {
+    this.resolveHost =
+      options.resolve ??
+      ((hostname) => lookup(hostname, { all: true, verbatim: true }));
+    this.dispatcher = new Agent({
+      connect: { lookup: this._connectLookup },
+    });
+    this.allowedSchemes = parseList(
+      process.env.SCRAPE_ALLOWED_SCHEMES || "http,https",
+    ).map((scheme) => scheme.replace(/:$/, ""));
+    this.allowPrivateHosts = parseList(
+      process.env.SCRAPE_ALLOW_PRIVATE_HOSTS || "",
+    ).map((host) => host.replace(/^\*\./, ""));
+    this.maxRedirects = Number.parseInt(
+      process.env.SCRAPE_MAX_REDIRECTS || "5",
+      10,
+    );
+    this.maxBytes = Number.parseInt(
+      process.env.SCRAPE_MAX_BYTES || "10485760",
+      10,
+    );
+    this.contentTypes = process.env.SCRAPE_CONTENT_TYPES
+      ? parseList(process.env.SCRAPE_CONTENT_TYPES)
+      : EXTRACTABLE_CONTENT_TYPES;
+  }
+
+  async fetch(
+    url: string,
+    options: SafeFetchOptions = {},
+  ): Promise<SafeResponse> {
+    let currentUrl = url;
+
+    for (let redirects = 0; ; redirects++) {
+      await this.checkUrl(currentUrl, options.signal);
+
+      const response = await undiciFetch(currentUrl, {
+        headers: options.headers,
+        redirect: "manual",
+        signal: options.signal,
+        dispatcher: this.dispatcher,
+      }).catch((error) => {
+        // A blocked address found while connecting fails the fetch with it
+        // as the cause
+        throw error?.cause instanceof UnsafeFetchError ? error.cause : error;
+      });
+
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (redirects >= this.maxRedirects) {
+          throw new UnsafeFetchError(
+            "too-many-redirects",
+            `Too many redirects (more than ${this.maxRedirects}) from ${url}`,
+          );
+        }
+        currentUrl = new URL(location, currentUrl).toString();
+        continue;
+      }
+
+      return this._readResponse(currentUrl, response, options);
+    }
+  }
+
+  // Throws when the URL's scheme or resolved addresses are not allowed
+  async checkUrl(url: string, signal?: AbortSignal): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new UnsafeFetchError("unsafe-url", `Invalid URL: ${url}`);
+    }
+
+    const scheme = parsed.protocol.replace(/:$/, "");
+    if (!this.allowedSchemes.includes(scheme)) {
+      throw new UnsafeFetchError(
+        "unsafe-url",
+        `Blocked ${url}: the ${scheme} scheme is not allowed (allowed: ${this.allowedSchemes.join(", ")})`,
+      );
+    }
+
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+
+    // Fails early with the URL in the message; connections to host names
+    // are checked again in _connectLookup
+    const addresses = isIP(hostname)
+      ? [{ address: hostname, family: isIP(hostname) }]
+      : await abortable(this.resolveHost(hostname), signal);
+    this._checkAddresses(hostname, addresses, `Blocked ${url}: `);
+  }
+
+  // Resolves the host a connection is opened to and refuses private
+  // addresses, so the socket connects to exactly the addresses checked
+  private _connectLookup: LookupFunction = (hostname, options, callback) => {
+    this.resolveHost(hostname)
+      .then((resolved) => {
+        const addresses = resolved.filter(
+          ({ family }) => !options.family || family === options.family,
+        );
+        if (addresses.length === 0) {
+          throw Object.assign(new Error(`No address found for ${hostname}`), {
+            code: "ENOTFOUND",
+          });
+        }
+        this._checkAddresses(hostname.toLowerCase(), addresses, "Blocked ");
+        return addresses;
+      })
+      .then(
+        (addresses) =>
+          options.all
+            ? callback(null, addresses)
+            : callback(null, addresses[0].address, addresses[0].family),
+        (error) => callback(error, ""),
+      );
+  };
+
+  private _checkAddresses(
+    hostname: string,
+    addresses: LookupAddress[],
+    prefix: string,
+  ): void {
+    if (
+      this.allowPrivateHosts.some(
+        (host) => hostname === host || hostname.endsWith(`.${host}`),
+      )
+    ) {
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      throw new UnsafeFetchError(
+        "unsafe-url",
+        `${prefix}${hostname} resolves to the private or link-local address ${blocked.address}`,
+      );
+    }
+  }
+
+  private async _readResponse(
+    url: string,
+    response: Response,
+    options: SafeFetchOptions,
+  ): Promise<SafeResponse> {
+    const contentType = (response.headers.get("content-type") || "")
+      .split(";")[0]
+      .trim()
+      .toLowerCase();
+    const charset =
+      response.headers.get("content-type")?.match(/charset="?([\w-]+)/i)?.[1] ??
+      "utf-8";
+    const result = (body: Uint8Array): SafeResponse => ({
+      url,
+      status: response.status,
+      ok: response.ok,
+      contentType,
+      body,
+      text: () => decode(body, charset),
+    });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return result(new Uint8Array());
+    }
+
+    // A missing Content-Type is left to the extractor
+    const accepted =
+      options.contentTypes === undefined
+        ? this.contentTypes
+        : options.contentTypes;
+    if (contentType && accepted && !accepted.includes(contentType)) {
+      await response.body?.cancel();
+      throw new UnsafeFetchError(
+        "unsupported-content-type",
+        `Unsupported content type ${contentType} at ${url} (accepted: ${accepted.join(", ")})`,
+      );
+    }
+
+    const maxBytes = options.maxBytes ?? this.maxBytes;
+    const tooLarge = () =>
+      new UnsafeFetchError(
+        "too-large",
+        `Response from ${url} is larger than ${maxBytes} bytes`,
+      );
+    const declared = Number(response.headers.get("content-length"));
+    if (!options.truncate && declared > maxBytes) {
+      await response.body?.cancel();
+      throw tooLarge();
+    }
+
+    // Stream the body so an oversized response is cut off early
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = response.body?.getReader();
+    while (reader) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      size += value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        if (!options.truncate) {
+          throw tooLarge();
+        }
+        chunks.push(value.subarray(0, value.byteLength - (size - maxBytes)));
+        size = maxBytes;
+        break;
+      }
+      chunks.push(value);
+    }
+
+    return result(Buffer.concat(chunks, size));
+  }
+}
+
+function decode(body: Uint8Array, charset: string): string {
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder().decode(body);
+  }
+}
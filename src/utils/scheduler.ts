@@ -0,0 +1,375 @@
+import { sleep } from "./abort";
+
+// "interactive" work (single searches, scrape_url) runs ahead of "bulk" work
+// (batch searches and their scraping)
+export type Priority = "interactive" | "bulk";
+
+export interface ScheduleOptions {
+  priority?: Priority;
+  retries?: number; // Extra attempts after the first one
+  retryDelay?: number; // Milliseconds before the first retry, doubled after
+  isRetryable?: (error: unknown) => boolean;
+  signal?: AbortSignal; // Drops the task from the queue and stops retrying
+  // Milliseconds between starts of tasks for the same host, on top of
+  // HOST_MIN_DELAY (e.g. a robots.txt Crawl-delay)
+  minDelay?: number;
+  // Called before each backoff wait with the failed attempt (1-based)
+  onRetry?: (error: unknown, attempt: number, delay: number) => void;
+}
+
+export interface SchedulerOptions {
+  maxConcurrency?: number;
+  backendRate?: number; // Requests per second per backend
+  backendBurst?: number;
+  hostRate?: number; // Requests per second per scraped host
+  hostBurst?: number;
+  hostConcurrency?: number; // Requests running at once per scraped host
+  hostMinDelay?: number; // Milliseconds between requests to a host
+  redirectRate?: number; // Grounding redirect lookups per second
+  redirectBurst?: number;
+}
+
+interface QueuedTask {
+  key: string;
+  priority: Priority;
+  seq: number;
+  minDelay: number;
+  start: () => void;
+}
+
+// Requests running and the last start per host, for politeness limits
+interface HostSlot {
+  active: number;
+  lastStart: number;
+}
+
+const PRIORITY_ORDER: Record<Priority, number> = { interactive: 0, bulk: 1 };
+const MIN_RATE_FACTOR = 1 / 16;
+const RATE_RECOVERY_STEP = 0.1;
+const MAX_IDLE_BUCKETS = 1000;
+
+// A 429 status in the error formats of the SDK ("got status: 429",
+// "[429 Too Many Requests]"), Code Assist and Vertex AI ("API error: 429 - "),
+// scraping ("status: 429") and Google's JSON errors ("code": 429); other
+// numbers that happen to contain 429 don't count
+const RATE_LIMIT_STATUS =
+  /\b(?:error|status):?\s*429\b|\[429\b|"code":\s*429\b/i;
+
+// 429 / RESOURCE_EXHAUSTED from the SDK, Code Assist, Vertex AI or a website
+export function isRateLimitError(error: unknown): boolean {
+  if (
+    typeof error === "object" &&
+    error !== null &&
+    "status" in error &&
+    error.status === 429
+  ) {
+    return true;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    RATE_LIMIT_STATUS.test(message) || message.includes("RESOURCE_EXHAUSTED")
+  );
+}
+
+/**
+ * Token bucket whose refill rate drops after rate limit errors and recovers
+ * step by step with successful requests
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private rateFactor = 1;
+
+  constructor(
+    private readonly rate: number, // Tokens per second
+    private readonly burst: number,
+  ) {
+    this.tokens = burst;
+  }
+
+  // Take a token; returns 0 on success or the milliseconds until one is free
+  take(): number {
+    this._refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.max(Math.ceil((1 - this.tokens) / this._ratePerMs()), 1);
+  }
+
+  slowDown(): void {
+    this.rateFactor = Math.max(this.rateFactor / 2, MIN_RATE_FACTOR);
+    this.tokens = Math.min(this.tokens, 0);
+  }
+
+  recover(): void {
+    this.rateFactor = Math.min(this.rateFactor + RATE_RECOVERY_STEP, 1);
+  }
+
+  get idle(): boolean {
+    this._refill();
+    return this.tokens >= this.burst && this.rateFactor === 1;
+  }
+
+  private _ratePerMs(): number {
+    return (this.rate * this.rateFactor) / 1000;
+  }
+
+  private _refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.tokens + (now - this.lastRefill) * this._ratePerMs(),
+      this.burst,
+    );
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Process-wide scheduler for outbound requests. Every task names a bucket key
+ * ("backend:<name>", "host:<hostname>" for scraped hosts with politeness
+ * limits, or "redirect:<hostname>" for the grounding redirect service,
+ * which only has a token bucket); a task starts once a global
+ * concurrency slot and a token from its bucket are available, interactive
+ * tasks first. Rate limit errors halve the bucket's rate and are retried with
+ * exponential backoff.
+ */
+export class Scheduler {
+  private queue: QueuedTask[] = [];
+  private buckets = new Map<string, TokenBucket>();
+  private hosts = new Map<string, HostSlot>();
+  private active = 0;
+  private seq = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private maxConcurrency: number;
+  private backendRate: number;
+  private backendBurst: number;
+  private hostRate: number;
+  private hostBurst: number;
+  private hostConcurrency: number;
+  private hostMinDelay: number;
+  private redirectRate: number;
+  private redirectBurst: number;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.maxConcurrency =
+      options.maxConcurrency ??
+      Number.parseInt(process.env.MAX_CONCURRENT_REQUESTS || "10", 10);
+    this.backendRate =
+      options.backendRate ??
+      Number.parseFloat(process.env.BACKEND_RATE_LIMIT || "1");
+    this.backendBurst =
+      options.backendBurst ??
+      Number.parseInt(process.env.BACKEND_BURST || "5", 10);
+    this.hostRate =
+      options.hostRate ?? Number.parseFloat(process.env.HOST_RATE_LIMIT || "2");
+    this.hostBurst =
+      options.hostBurst ?? Number.parseInt(process.env.HOST_BURST || "4", 10);
+    this.hostConcurrency =
+      options.hostConcurrency ??
+      Number.parseInt(process.env.HOST_MAX_CONCURRENCY || "2", 10);
+    this.hostMinDelay =
+      options.hostMinDelay ??
+      Number.parseInt(process.env.HOST_MIN_DELAY || "250", 10);
+    this.redirectRate =
+      options.redirectRate ??
+      Number.parseFloat(process.env.REDIRECT_RATE_LIMIT || "10");
+    this.redirectBurst =
+      options.redirectBurst ??
+      Number.parseInt(process.env.REDIRECT_BURST || "20", 10);
+  }
+
+  async schedule<T>(
+    key: string,
+    task: () => Promise<T>,
+    options: ScheduleOptions = {},
+  ): Promise<T> {
+    const priority = options.priority ?? "interactive";
+    const retries = options.retries ?? 0;
+    const isRetryable = options.isRetryable ?? isRateLimitError;
+    const signal = options.signal;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await this._run(
+          key,
+          priority,
+          task,
+          signal,
+          options.minDelay ?? 0,
+        );
+        this._bucket(key).recover();
+        return result;
+      } catch (error) {
+        if (isRateLimitError(error)) {
+          this._bucket(key).slowDown();
+        }
+        if (signal?.aborted || attempt >= retries || !isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = (options.retryDelay ?? 1000) * 2 ** attempt;
+        console.error(
+          `Request for ${key} failed (attempt ${attempt + 1}/${retries + 1}): ` +
+            `${error instanceof Error ? error.message : error}. ` +
+            `Retrying in ${delay / 1000} seconds...`,
+        );
+        options.onRetry?.(error, attempt + 1, delay);
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  private _run<T>(
+    key: string,
+    priority: Priority,
+    task: () => Promise<T>,
+    signal: AbortSignal | undefined,
+    minDelay: number,
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      // A task cancelled while waiting leaves the queue without running
+      const onAbort = () => {
+        const index = this.queue.indexOf(entry);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(signal?.reason);
+        }
+      };
+      const entry: QueuedTask = {
+        key,
+        priority,
+        seq: this.seq++,
+        minDelay,
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          const slot = this._hostSlot(key);
+          this.active++;
+          if (slot) {
+            slot.active++;
+            slot.lastStart = Date.now();
+          }
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              if (slot) {
+                slot.active--;
+              }
+              this._drain();
+            });
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(entry);
+      this.queue.sort(
+        (a, b) =>
+          PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+          a.seq - b.seq,
+      );
+      this._drain();
+    });
+  }
+
+  // Start every queued task that has a slot, a token and whose host is free
+  // and past its minimum delay; tasks waiting on one host or bucket don't
+  // hold up tasks for others
+  private _drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    let nextWait = Number.POSITIVE_INFINITY;
+    for (let i = 0; i < this.queue.length; ) {
+      if (this.active >= this.maxConcurrency) {
+        return;
+      }
+
+      const entry = this.queue[i];
+      const slot = this._hostSlot(entry.key);
+      if (slot && slot.active >= this.hostConcurrency) {
+        // Retried when one of the host's tasks finishes
+        i++;
+        continue;
+      }
+      const delay = slot
+        ? slot.lastStart +
+          Math.max(this.hostMinDelay, entry.minDelay) -
+          Date.now()
+        : 0;
+      if (delay > 0) {
+        nextWait = Math.min(nextWait, delay);
+        i++;
+        continue;
+      }
+
+      const wait = this._bucket(entry.key).take();
+      if (wait === 0) {
+        this.queue.splice(i, 1);
+        entry.start();
+      } else {
+        nextWait = Math.min(nextWait, wait);
+        i++;
+      }
+    }
+
+    if (this.queue.length > 0 && Number.isFinite(nextWait)) {
+      this.timer = setTimeout(() => this._drain(), nextWait);
+    }
+  }
+
+  private _bucket(key: string): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      // Forget hosts that haven't been used for a while
+      if (this.buckets.size >= MAX_IDLE_BUCKETS) {
+        for (const [bucketKey, existing] of this.buckets) {
+          if (existing.idle && !this.hosts.get(bucketKey)?.active) {
+            this.buckets.delete(bucketKey);
+            this.hosts.delete(bucketKey);
+          }
+        }
+      }
+
+      if (key.startsWith("host:")) {
+        bucket = new TokenBucket(this.hostRate, this.hostBurst);
+      } else if (key.startsWith("redirect:")) {
+        bucket = new TokenBucket(this.redirectRate, this.redirectBurst);
+      } else {
+        bucket = new TokenBucket(this.backendRate, this.backendBurst);
+      }
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  // Politeness state of a scraped host; backends have none
+  private _hostSlot(key: string): HostSlot | undefined {
+    if (!key.startsWith("host:")) {
+      return undefined;
+    }
+
+    let slot = this.hosts.get(key);
+    if (!slot) {
+      slot = { active: 0, lastStart: 0 };
+      this.hosts.set(key, slot);
+    }
+    return slot;
+  }
+}
+
+let sharedScheduler: Scheduler | null = null;
+
+// The scheduler shared by every client, scraper and resolver in the process
+export function getScheduler(): Scheduler {
+  sharedScheduler ??= new Scheduler();
+  return sharedScheduler;
+}
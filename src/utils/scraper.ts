@@ -1,35 +1,55 @@
-import type { ScrapedContent } from "../types/index";
+import type {
+  ContentTruncation,
+  PageQuote,
+  ScrapedContent,
+  SummaryCoverage,
+  SummaryResult,
+} from "../types/index";
+import { withTimeout } from "./abort";
+import { PersistentCache } from "./cache";
+import { extractDocument } from "./extractors/index";
+import { RobotsChecker, USER_AGENT } from "./robots";
+import { SafeFetcher, type SafeResponse, UnsafeFetchError } from "./safe-fetch";
+import {
+  getScheduler,
+  type Priority,
+  type ScheduleOptions,
+  type Scheduler,
+} from "./scheduler";
 
-// Dynamic import for ESM module
-let readabilityModule: any = null;
-const getReadability = async () => {
-  if (!readabilityModule) {
-    readabilityModule = await import("@mizchi/readability");
-  }
-  return readabilityModule;
-};
+const CACHE_NAMESPACE = "scrape";
 
-interface CacheEntry {
-  content: ScrapedContent;
-  timestamp: number;
+interface Summarizer {
+  summarize: (
+    text: string,
+    maxLength: number,
+    options?: {
+      model?: string;
+      priority?: Priority;
+      signal?: AbortSignal;
+      query?: string;
+    },
+  ) => Promise<SummaryResult>;
 }
 
 export class Scraper {
-  private cache = new Map<string, CacheEntry>();
-  private cacheTTL: number;
+  private cache: PersistentCache;
+  private scheduler: Scheduler;
+  private robots: RobotsChecker;
+  private fetcher: SafeFetcher;
   private scrapeTimeout: number;
   private scrapeRetries: number;
   private excerptLength: number;
   private summaryLength: number;
-  private geminiClient?: {
-    summarize: (text: string, maxLength: number) => Promise<string>;
-  };
+  private fullContentLength: number;
+  private geminiClient?: Summarizer;
 
-  constructor(geminiClient?: {
-    summarize: (text: string, maxLength: number) => Promise<string>;
-  }) {
+  constructor(geminiClient?: Summarizer, cache?: PersistentCache) {
     this.geminiClient = geminiClient;
-    this.cacheTTL = Number.parseInt(process.env.CACHE_TTL || "3600", 10) * 1000;
+    this.cache = cache ?? new PersistentCache();
+    this.scheduler = getScheduler();
+    this.robots = new RobotsChecker();
+    this.fetcher = new SafeFetcher();
     this.scrapeTimeout = Number.parseInt(
       process.env.SCRAPE_TIMEOUT || "10000",
       10,
@@ -43,12 +63,17 @@ export class Scraper {
       process.env.SUMMARY_LENGTH || "5000",
       10,
     );
+    this.fullContentLength = Number.parseInt(
+      process.env.FULL_CONTENT_LENGTH || "100000",
+      10,
+    );
 
     // Log configuration for debugging
     if (process.env.DEBUG === "true") {
-      console.log("Scraper configuration:", {
+      console.error("Scraper configuration:", {
         excerptLength: this.excerptLength,
         summaryLength: this.summaryLength,
+        fullContentLength: this.fullContentLength,
       });
     }
   }
@@ -59,176 +84,240 @@ export class Scraper {
       retries?: number;
       contentMode?: "excerpt" | "summary" | "full";
       maxContentLength?: number;
+      summaryModel?: string;
+      query?: string; // Aims excerpts and summaries at this question
+      priority?: Priority;
+      signal?: AbortSignal; // Cancels the fetch, its retries and summarizing
+      onRetry?: ScheduleOptions["onRetry"];
     },
   ): Promise<ScrapedContent> {
     const maxRetries = options?.retries ?? this.scrapeRetries;
     const contentMode = options?.contentMode ?? "full";
-    const maxContentLength = options?.maxContentLength ?? 10000;
+    const maxContentLength =
+      options?.maxContentLength ?? this.fullContentLength;
 
-    // Check cache first
-    const cached = this.cache.get(url);
-    if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
-      return cached.content;
+    // Check cache first; an excerpt must never be served for a full request
+    const effectiveLength =
+      contentMode === "excerpt"
+        ? this.excerptLength
+        : contentMode === "summary"
+          ? this.summaryLength
+          : maxContentLength;
+    const cacheKey = [
+      url,
+      contentMode,
+      effectiveLength,
+      options?.summaryModel ?? "",
+      contentMode === "full" ? "" : (options?.query ?? ""),
+    ].join("|");
+    const cached = await this.cache.get<ScrapedContent>(
+      CACHE_NAMESPACE,
+      cacheKey,
+    );
+    if (cached) {
+      return cached;
     }
 
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(
-          () => controller.abort(),
-          this.scrapeTimeout,
-        );
-
-        const response = await fetch(url, {
-          headers: {
-            "User-Agent": "Mozilla/5.0 (compatible; GeminiGroundingMCP/1.0)",
-          },
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
-        const html = await response.text();
-
-        // Get readability module
-        const { extract, toMarkdown } = await getReadability();
-
-        // Extract readable content
-        const extracted = extract(html, {
-          charThreshold: 100,
-          url: url,
-        });
+    try {
+      // Blocked URLs fail before any request, robots.txt included
+      await this.fetcher.checkUrl(url, options?.signal);
+      const robots = await this.robots.check(url, {
+        priority: options?.priority,
+        signal: options?.signal,
+      });
+      if (!robots.allowed) {
+        return {
+          url,
+          title: "Error",
+          content: null,
+          ...(robots.unavailable
+            ? {
+                error: `robots.txt unavailable (${robots.unavailable}); not fetching`,
+                errorKind: "robots-unavailable" as const,
+              }
+            : {
+                error: "Disallowed by the site's robots.txt",
+                errorKind: "robots-disallowed" as const,
+              }),
+          scrapedAt: new Date().toISOString(),
+        };
+      }
 
-        if (!extracted || !extracted.root) {
-          throw new Error("Failed to extract content from URL");
-        }
+      // Fetch through the scheduler, which throttles per host and retries
+      // with exponential backoff
+      const response = await this.scheduler.schedule(
+        `host:${new URL(url).host}`,
+        () => this._fetchDocument(url, options?.signal),
+        {
+          priority: options?.priority,
+          retries: Math.max(maxRetries - 1, 0),
+          retryDelay: 1000,
+          isRetryable: (error) => !(error instanceof UnsafeFetchError),
+          signal: options?.signal,
+          onRetry: options?.onRetry,
+          minDelay: robots.crawlDelay,
+        },
+      );
 
-        // Convert to Markdown
-        const fullMarkdown = toMarkdown(extracted.root);
+      // Extract readable content for the document's content type
+      const document = await extractDocument(response);
+      const fullMarkdown = document.markdown;
 
-        // Process content based on mode
-        let processedContent: string;
+      // Process content based on mode
+      let processedContent: string;
+      let summaryCoverage: SummaryCoverage | undefined;
+      let truncation: ContentTruncation | undefined;
+      let quotes: PageQuote[] = [];
 
-        switch (contentMode) {
-          case "excerpt":
-            // Use Gemini to create an excerpt
-            if (
-              this.geminiClient &&
-              fullMarkdown.length > this.excerptLength * 1.5
-            ) {
-              try {
-                processedContent = await this.geminiClient.summarize(
-                  fullMarkdown,
-                  this.excerptLength,
-                );
-              } catch (error) {
-                console.error(
-                  "Failed to generate AI excerpt, falling back to truncation:",
-                  error,
-                );
-                // Fallback to simple truncation
-                processedContent = fullMarkdown.slice(0, this.excerptLength);
-                if (fullMarkdown.length > this.excerptLength) {
-                  processedContent += "...";
-                }
-              }
-            } else {
-              // For short content or no Gemini client, just truncate
+      switch (contentMode) {
+        case "excerpt":
+          // Use Gemini to create an excerpt
+          if (
+            this.geminiClient &&
+            fullMarkdown.length > this.excerptLength * 1.5
+          ) {
+            try {
+              const summary = await this.geminiClient.summarize(
+                fullMarkdown,
+                this.excerptLength,
+                {
+                  model: options?.summaryModel,
+                  priority: options?.priority,
+                  signal: options?.signal,
+                  query: options?.query,
+                },
+              );
+              processedContent = summary.text;
+              summaryCoverage = summary.coverage;
+              quotes = summary.quotes;
+            } catch (error) {
+              options?.signal?.throwIfAborted();
+              console.error(
+                "Failed to generate AI excerpt, falling back to truncation:",
+                error,
+              );
+              // Fallback to simple truncation
               processedContent = fullMarkdown.slice(0, this.excerptLength);
               if (fullMarkdown.length > this.excerptLength) {
                 processedContent += "...";
               }
             }
-            break;
+          } else {
+            // For short content or no Gemini client, just truncate
+            processedContent = fullMarkdown.slice(0, this.excerptLength);
+            if (fullMarkdown.length > this.excerptLength) {
+              processedContent += "...";
+            }
+          }
+          break;
 
-          case "summary":
-            // Use Gemini to create a summary
-            if (
-              this.geminiClient &&
-              fullMarkdown.length > this.summaryLength * 1.2
-            ) {
-              try {
-                processedContent = await this.geminiClient.summarize(
-                  fullMarkdown,
-                  this.summaryLength,
-                );
-              } catch (error) {
-                console.error(
-                  "Failed to generate AI summary, falling back to truncation:",
-                  error,
-                );
-                // Fallback to truncation
-                processedContent = fullMarkdown.slice(0, this.summaryLength);
-                if (fullMarkdown.length > this.summaryLength) {
-                  processedContent +=
-                    "\n\n[Content truncated for summary mode]";
-                }
-              }
-            } else {
-              // For short content or no Gemini client, just truncate
+        case "summary":
+          // Use Gemini to create a summary
+          if (
+            this.geminiClient &&
+            fullMarkdown.length > this.summaryLength * 1.2
+          ) {
+            try {
+              const summary = await this.geminiClient.summarize(
+                fullMarkdown,
+                this.summaryLength,
+                {
+                  model: options?.summaryModel,
+                  priority: options?.priority,
+                  signal: options?.signal,
+                  query: options?.query,
+                },
+              );
+              processedContent = summary.text;
+              summaryCoverage = summary.coverage;
+              quotes = summary.quotes;
+            } catch (error) {
+              options?.signal?.throwIfAborted();
+              console.error(
+                "Failed to generate AI summary, falling back to truncation:",
+                error,
+              );
+              // Fallback to truncation
               processedContent = fullMarkdown.slice(0, this.summaryLength);
               if (fullMarkdown.length > this.summaryLength) {
                 processedContent += "\n\n[Content truncated for summary mode]";
               }
             }
-            break;
-          default:
-            // Apply maxContentLength if specified
-            if (fullMarkdown.length > maxContentLength) {
-              processedContent = fullMarkdown.slice(0, maxContentLength);
-              processedContent += `\n\n[Content truncated at ${maxContentLength} characters]`;
-            } else {
-              processedContent = fullMarkdown;
+          } else {
+            // For short content or no Gemini client, just truncate
+            processedContent = fullMarkdown.slice(0, this.summaryLength);
+            if (fullMarkdown.length > this.summaryLength) {
+              processedContent += "\n\n[Content truncated for summary mode]";
             }
-            break;
-        }
+          }
+          break;
+        default:
+          // Apply maxContentLength if specified
+          if (fullMarkdown.length > maxContentLength) {
+            processedContent = fullMarkdown.slice(0, maxContentLength);
+            processedContent += `\n\n[Content truncated at ${maxContentLength} characters]`;
+            truncation = {
+              shownLength: maxContentLength,
+              totalLength: fullMarkdown.length,
+            };
+          } else {
+            processedContent = fullMarkdown;
+          }
+          break;
+      }
 
-        // Add metadata
-        const result: ScrapedContent = {
-          url,
-          title: extracted.metadata?.title || "Scraped Content",
-          content: processedContent,
-          scrapedAt: new Date().toISOString(),
-        };
+      // Add metadata
+      const result: ScrapedContent = {
+        url,
+        title: document.title || "Scraped Content",
+        content: processedContent,
+        scrapedAt: new Date().toISOString(),
+        ...(document.publishedAt && { publishedAt: document.publishedAt }),
+        ...(document.modifiedAt && { modifiedAt: document.modifiedAt }),
+        ...(summaryCoverage && { summaryCoverage }),
+        ...(truncation && { truncation }),
+        ...(quotes.length > 0 && { quotes }),
+      };
 
-        // Cache the result
-        this.cache.set(url, {
-          content: result,
-          timestamp: Date.now(),
-        });
+      // Cache the result
+      await this.cache.set(CACHE_NAMESPACE, cacheKey, result);
 
-        return result;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error("Unknown error");
-        console.error(
-          `Failed to scrape ${url} (attempt ${attempt}/${maxRetries}):`,
-          lastError.message,
-        );
+      return result;
+    } catch (error) {
+      // A cancelled call has no result to report
+      options?.signal?.throwIfAborted();
 
-        // If not the last attempt, wait before retrying
-        if (attempt < maxRetries) {
-          await new Promise((resolve) =>
-            setTimeout(resolve, 2 ** (attempt - 1) * 1000),
-          ); // Exponential backoff
-        }
-      }
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error(`Failed to scrape ${url}:`, errorMessage);
+      return {
+        url,
+        title: "Error",
+        content: null,
+        error: errorMessage,
+        errorKind:
+          error instanceof UnsafeFetchError ? error.kind : "fetch-failed",
+        scrapedAt: new Date().toISOString(),
+      };
     }
+  }
 
-    // All retries failed, return error result
-    const errorMessage = lastError?.message || "Unknown error";
-    return {
-      url,
-      title: "Error",
-      content: null,
-      error: errorMessage,
-      scrapedAt: new Date().toISOString(),
-    };
+  private async _fetchDocument(
+    url: string,
+    signal?: AbortSignal,
+  ): Promise<SafeResponse> {
+    const response = await this.fetcher.fetch(url, {
+      headers: {
+        "User-Agent": USER_AGENT,
+      },
+      signal: withTimeout(signal, this.scrapeTimeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return response;
   }
 
   async scrapeUrls(
@@ -236,29 +325,17 @@ export class Scraper {
     options?: {
       contentMode?: "excerpt" | "summary" | "full";
       maxContentLength?: number;
+      summaryModel?: string;
+      query?: string;
+      priority?: Priority;
+      signal?: AbortSignal;
     },
   ): Promise<ScrapedContent[]> {
-    const batchSize = Number.parseInt(process.env.BATCH_SIZE || "5", 10);
-    const results: ScrapedContent[] = [];
-
-    // Process in batches to avoid overwhelming the system
-    for (let i = 0; i < urls.length; i += batchSize) {
-      const batch = urls.slice(i, i + batchSize);
-      const batchResults = await Promise.all(
-        batch.map((url) => this.scrapeUrl(url, options)),
-      );
-      results.push(...batchResults);
-
-      // Add small delay between batches
-      if (i + batchSize < urls.length) {
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
-    }
-
-    return results;
+    // The scheduler limits concurrency and the request rate per host
+    return Promise.all(urls.map((url) => this.scrapeUrl(url, options)));
   }
 
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await this.cache.clear(CACHE_NAMESPACE);
   }
 }
@@ -0,0 +1,221 @@
+import type { Citation, SearchResultDetail } from "../types/index";
+import { abortable, withTimeout } from "./abort";
+import { getScheduler, type Priority, type Scheduler } from "./scheduler";
+
+interface CacheEntry {
+  url: string;
+  timestamp: number;
+}
+
+// A lookup shared by concurrent callers; it is aborted once every caller
+// waiting for it has been cancelled
+interface PendingLookup {
+  promise: Promise<string>;
+  priority: Priority;
+  controller: AbortController;
+  waiting: number;
+}
+
+export interface ResolveOptions {
+  priority?: Priority; // Queue priority of the lookup (default: interactive)
+  signal?: AbortSignal;
+}
+
+const DEFAULT_REDIRECT_HOSTS = "vertexaisearch.cloud.google.com";
+const MAX_REDIRECTS = 5;
+
+export class UrlResolver {
+  private cache = new Map<string, CacheEntry>();
+  private pending = new Map<string, PendingLookup>();
+  private cacheTTL: number;
+  private resolveTimeout: number;
+  private redirectHosts: string[];
+  private scheduler: Scheduler;
+
+  constructor() {
+    this.scheduler = getScheduler();
+    this.cacheTTL = Number.parseInt(process.env.CACHE_TTL || "3600", 10) * 1000;
+    this.resolveTimeout = Number.parseInt(
+      process.env.RESOLVE_TIMEOUT || "5000",
+      10,
+    );
+    this.redirectHosts = (
+      process.env.GROUNDING_REDIRECT_HOSTS || DEFAULT_REDIRECT_HOSTS
+    )
+      .split(",")
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  isRedirectUrl(url: string): boolean {
+    try {
+      const { host } = new URL(url);
+      return this.redirectHosts.includes(host.toLowerCase());
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve a grounding redirect URL to the canonical source URL.
+   * Non-redirect URLs are returned unchanged; on failure the original URL is
+   * kept. Rejects with the signal's reason when cancelled.
+   */
+  async resolve(url: string, options: ResolveOptions = {}): Promise<string> {
+    if (!this.isRedirectUrl(url)) {
+      return url;
+    }
+
+    const cached = this.cache.get(url);
+    if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
+      return cached.url;
+    }
+
+    const { signal } = options;
+    const priority = options.priority ?? "interactive";
+    signal?.throwIfAborted();
+
+    // Share in-flight lookups between concurrent queries, except that an
+    // interactive caller doesn't wait behind a lookup queued at bulk priority
+    const shared = this.pending.get(url);
+    const lookup =
+      shared && (shared.priority === "interactive" || priority === "bulk")
+        ? shared
+        : this._startLookup(url, priority);
+    lookup.waiting++;
+    if (!signal) {
+      // Callers without a signal keep the lookup running to the end
+      return lookup.promise;
+    }
+
+    const onAbort = () => {
+      if (--lookup.waiting === 0) {
+        lookup.controller.abort(signal.reason);
+      }
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    try {
+      return await abortable(lookup.promise, signal);
+    } finally {
+      signal.removeEventListener("abort", onAbort);
+    }
+  }
+
+  async resolveCitations(
+    citations: Citation[],
+    options: ResolveOptions = {},
+  ): Promise<Citation[]> {
+    return Promise.all(
+      citations.map(async (citation) => {
+        const url = await this.resolve(citation.url, options);
+        return url === citation.url
+          ? citation
+          : { ...citation, url, originalUrl: citation.url };
+      }),
+    );
+  }
+
+  async resolveSearchResults(
+    searchResults: SearchResultDetail[],
+    options: ResolveOptions = {},
+  ): Promise<SearchResultDetail[]> {
+    const resolved = await Promise.all(
+      searchResults.map(async (result) => {
+        const url = await this.resolve(result.url, options);
+        return url === result.url
+          ? result
+          : { ...result, url, originalUrl: result.url };
+      }),
+    );
+
+    // Different redirect links often point at the same page
+    const seen = new Set<string>();
+    return resolved.filter((result) => {
+      if (seen.has(result.url)) {
+        return false;
+      }
+      seen.add(result.url);
+      return true;
+    });
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private _startLookup(url: string, priority: Priority): PendingLookup {
+    const controller = new AbortController();
+    const promise = this._followRedirects(url, priority, controller.signal)
+      .then((resolvedUrl) => {
+        this.cache.set(url, { url: resolvedUrl, timestamp: Date.now() });
+        return resolvedUrl;
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          console.error(
+            `Failed to resolve redirect URL ${url}:`,
+            error instanceof Error ? error.message : error,
+          );
+        }
+        return url;
+      })
+      .finally(() => {
+        if (this.pending.get(url) === lookup) {
+          this.pending.delete(url);
+        }
+      });
+
+    const lookup = { promise, priority, controller, waiting: 0 };
+    this.pending.set(url, lookup);
+    return lookup;
+  }
+
+  private async _followRedirects(
+    url: string,
+    priority: Priority,
+    signal: AbortSignal,
+  ): Promise<string> {
+    let currentUrl = url;
+
+    // Only follow hops within the redirect service; the source page itself
+    // is never fetched here. The service is Google's, not a site being
+    // scraped, so it has its own token bucket instead of politeness limits
+    for (
+      let hop = 0;
+      hop < MAX_REDIRECTS && this.isRedirectUrl(currentUrl);
+      hop++
+    ) {
+      const hopUrl = currentUrl;
+      const location = await this.scheduler.schedule(
+        `redirect:${new URL(hopUrl).host}`,
+        () => this._fetchLocation(hopUrl, signal),
+        { priority, signal },
+      );
+      currentUrl = new URL(location, hopUrl).toString();
+    }
+
+    if (this.isRedirectUrl(currentUrl)) {
+      throw new Error(`Too many redirects (max ${MAX_REDIRECTS})`);
+    }
+
+    return currentUrl;
+  }
+
+  private async _fetchLocation(
+    url: string,
+    signal: AbortSignal,
+  ): Promise<string> {
+    const response = await fetch(url, {
+      method: "GET",
+      redirect: "manual",
+      signal: withTimeout(signal, this.resolveTimeout),
+    });
+    await response.body?.cancel();
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      throw new Error(`Expected redirect, got status ${response.status}`);
+    }
+    return location;
+  }
+}
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { existsSync, readdirSync, utimesSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { PersistentCache } from "../src/utils/cache";
+import { tempDir } from "./helpers/env";
+
+// Make an entry look last used the given number of seconds ago
+function touch(directory: string, namespace: string, secondsAgo: number) {
+  const time = new Date(Date.now() - secondsAgo * 1000);
+  for (const name of readdirSync(join(directory, namespace))) {
+    utimesSync(join(directory, namespace, name), time, time);
+  }
+}
+
+describe("PersistentCache", () => {
+  it("returns nothing for an expired entry and removes it", async () => {
+    const directory = tempDir("cache");
+    const cache = new PersistentCache({ directory });
+
+    await cache.set("search", "fresh", { answer: 1 });
+    await cache.set("search", "stale", { answer: 2 }, -1);
+
+    assert.deepEqual(await cache.get("search", "fresh"), { answer: 1 });
+    assert.equal(await cache.get("search", "stale"), undefined);
+    assert.equal(readdirSync(join(directory, "search")).length, 1);
+  });
+
+  it("evicts the least recently used entries over the entry limit", async () => {
+    const directory = tempDir("cache");
+    const cache = new PersistentCache({ directory, maxEntries: 2 });
+
+    await cache.set("search", "old", "a");
+    touch(directory, "search", 30);
+    await cache.set("scrape", "middle", "b");
+    touch(directory, "scrape", 20);
+    await cache.set("search", "new", "c");
+    await cache.prune();
+
+    assert.equal(await cache.get("search", "old"), undefined);
+    assert.equal(await cache.get("scrape", "middle"), "b");
+    assert.equal(await cache.get("search", "new"), "c");
+  });
+
+  it("evicts the least recently used entries over the size limit", async () => {
+    const directory = tempDir("cache");
+    const value = "x".repeat(1000);
+    const cache = new PersistentCache({ directory, maxSize: 2500 });
+
+    await cache.set("scrape", "first", value);
+    touch(directory, "scrape", 30);
+    await cache.set("search", "second", value);
+    touch(directory, "search", 20);
+    await cache.get("scrape", "first"); // Used again, so now the newest
+    await cache.set("search", "third", value);
+    await cache.prune();
+
+    assert.equal(await cache.get("scrape", "first"), value);
+    assert.equal(await cache.get("search", "second"), undefined);
+    assert.equal(await cache.get("search", "third"), value);
+  });
+
+  it("clears one namespace or everything", async () => {
+    const directory = tempDir("cache");
+    const cache = new PersistentCache({ directory });
+    await cache.set("scrape", "page", 1);
+    await cache.set("search", "query", 2);
+
+    await cache.clear("scrape");
+    assert.equal(await cache.get("scrape", "page"), undefined);
+    assert.equal(await cache.get("search", "query"), 2);
+
+    await cache.clear();
+    assert.equal(await cache.get("search", "query"), undefined);
+    assert.equal(existsSync(directory), false);
+  });
+
+  it("leaves other files in a shared cache directory alone", async () => {
+    const directory = tempDir("cache");
+    const cache = new PersistentCache({ directory });
+    await cache.set("search", "query", 1);
+    writeFileSync(join(directory, "notes.txt"), "keep");
+
+    await cache.clear();
+
+    assert.equal(await cache.get("search", "query"), undefined);
+    assert.deepEqual(readdirSync(directory), ["notes.txt"]);
+  });
+
+  it("refuses to clear an unknown namespace", async () => {
+    const directory = tempDir("cache");
+    const cache = new PersistentCache({ directory: join(directory, "cache") });
+    writeFileSync(join(directory, "keep.txt"), "");
+
+    await assert.rejects(
+      // @ts-expect-error: namespaces outside the cache are rejected at runtime
+      cache.clear(".."),
+      /Unknown cache namespace/,
+    );
+    assert.equal(existsSync(join(directory, "keep.txt")), true);
+  });
+
+  it("reports entries and sizes per namespace", async () => {
+    const directory = tempDir("cache");
+    const cache = new PersistentCache({
+      directory,
+      maxSize: 1000,
+      maxEntries: 10,
+    });
+    await cache.set("scrape", "a", 1);
+    await cache.set("scrape", "b", 2);
+    await cache.set("search", "c", 3);
+
+    const stats = await cache.stats();
+
+    assert.equal(stats.entries, 3);
+    assert.equal(stats.namespaces.scrape.entries, 2);
+    assert.equal(stats.namespaces.search.entries, 1);
+    assert.equal(
+      stats.totalSize,
+      stats.namespaces.scrape.size + stats.namespaces.search.size,
+    );
+    assert.equal(stats.maxSize, 1000);
+    assert.equal(stats.maxEntries, 10);
+  });
+
+  it("removes temp files left behind by interrupted writes", async () => {
+    const directory = tempDir("cache");
+    const cache = new PersistentCache({ directory });
+    await cache.set("scrape", "page", 1);
+    const stale = join(directory, "scrape", "abc.json.1234.tmp");
+    const fresh = join(directory, "scrape", "def.json.5678.tmp");
+    writeFileSync(stale, "{");
+    writeFileSync(fresh, "{");
+    const old = new Date(Date.now() - 5 * 60 * 1000);
+    utimesSync(stale, old, old);
+
+    await cache.prune();
+
+    assert.equal(existsSync(stale), false);
+    assert.equal(existsSync(fresh), true); // May still be being written
+    assert.equal((await cache.stats()).entries, 1);
+  });
+});
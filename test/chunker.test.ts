@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { chunkMarkdown } from "../src/utils/chunker";
+
+describe("chunkMarkdown", () => {
+  it("keeps short text in one chunk", () => {
+    assert.deepEqual(chunkMarkdown("# Title\n\nShort text.", 100), [
+      "# Title\n\nShort text.",
+    ]);
+  });
+
+  it("starts chunks at headings and packs small sections together", () => {
+    const text = [
+      "# One\n\nFirst section.",
+      "## Two\n\nSecond section.",
+      `## Three\n\n${"Long section. ".repeat(4).trim()}`,
+    ].join("\n\n");
+
+    const chunks = chunkMarkdown(text, 70);
+
+    assert.deepEqual(chunks, [
+      "# One\n\nFirst section.\n\n## Two\n\nSecond section.",
+      `## Three\n\n${"Long section. ".repeat(4).trim()}`,
+    ]);
+  });
+
+  it("splits long sections between paragraphs, then words", () => {
+    const paragraph = "word ".repeat(30).trim();
+    const text = `# Heading\n\n${paragraph}\n\nLast paragraph.`;
+
+    const chunks = chunkMarkdown(text, 50);
+
+    assert.ok(chunks.length > 3);
+    for (const chunk of chunks) {
+      assert.ok(chunk.length <= 50, chunk);
+      assert.ok(!chunk.startsWith(" ") && !chunk.endsWith(" "), chunk);
+    }
+    assert.equal(chunks[0], "# Heading");
+    assert.ok(chunks.at(-1)?.endsWith("Last paragraph."));
+    assert.equal(
+      chunks.join(" ").replace(/\s+/g, " "),
+      text.replace(/\s+/g, " "),
+    );
+  });
+
+  it("splits text without separators at the chunk size", () => {
+    assert.deepEqual(chunkMarkdown("x".repeat(25), 10), [
+      "x".repeat(10),
+      "x".repeat(10),
+      "x".repeat(5),
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  createStructuredSearchResult,
+  parseTextWithCitations,
+  toStructuredContent,
+} from "../src/utils/citation-parser";
+
+describe("parseTextWithCitations", () => {
+  it("attaches each marker run to the text before it", () => {
+    const text = "Node is fast.[1] Deno is new.[2][1] Bun too.";
+    const { segments, citationNumbers } = parseTextWithCitations(text);
+
+    assert.deepEqual(
+      segments.map(({ text, citationIds }) => ({ text, citationIds })),
+      [
+        { text: "Node is fast.", citationIds: [1] },
+        { text: " Deno is new.", citationIds: [2, 1] },
+        { text: " Bun too.", citationIds: [] },
+      ],
+    );
+    assert.deepEqual([...citationNumbers].sort(), [1, 2]);
+  });
+
+  it("keeps offsets into the original text", () => {
+    const text = "Alpha.[1] Beta.[2]";
+    for (const segment of parseTextWithCitations(text).segments) {
+      assert.equal(
+        text.slice(segment.startIndex, segment.endIndex),
+        segment.text,
+      );
+    }
+  });
+
+  it("merges marker runs separated only by whitespace", () => {
+    const { segments } = parseTextWithCitations("Alpha.[1] [2]");
+
+    assert.equal(segments.length, 1);
+    assert.deepEqual(segments[0].citationIds, [1, 2]);
+  });
+});
+
+describe("toStructuredContent", () => {
+  it("serializes the citation map to plain JSON", () => {
+    const structured = toStructuredContent(
+      createStructuredSearchResult({
+        query: "q",
+        summary: "Alpha.[2]",
+        citations: [
+          { number: 1, title: "One", url: "https://one.example/" },
+          { number: 2, title: "Two", url: "https://two.example/" },
+        ],
+      }),
+    );
+
+    const json = JSON.parse(JSON.stringify(structured));
+    assert.deepEqual(Object.keys(json.citationMap), ["2"]);
+    assert.equal(json.citationMap["2"].url, "https://two.example/");
+    assert.equal(json.metadata.citationCount, 1);
+  });
+});
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ScrapedContent } from "../src/types/index";
+import { CitationVerifier, rankPassages } from "../src/utils/citation-verifier";
+
+const pages: Record<string, string> = {
+  "https://a.example/": [
+    "# Node.js",
+    "",
+    "Node.js 22 ships with the V8 12.4 engine. It also adds require() for ES modules.",
+    "",
+    "The release became LTS in October 2024.",
+  ].join("\n"),
+  "https://b.example/": "Deno is a runtime for JavaScript and TypeScript.",
+};
+
+// Scraper serving the pages above; other URLs fail
+const scraper = {
+  scrapeUrl: async (url: string): Promise<ScrapedContent> => ({
+    url,
+    title: "Page",
+    content: pages[url] ?? null,
+    ...(!pages[url] && { error: "HTTP error! status: 404" }),
+    scrapedAt: new Date().toISOString(),
+  }),
+};
+
+const citations = [
+  { number: 1, title: "A", url: "https://a.example/" },
+  { number: 2, title: "B", url: "https://b.example/" },
+  { number: 3, title: "C", url: "https://c.example/" },
+];
+
+describe("rankPassages", () => {
+  it("ranks passages by the share of the claim's terms they contain", () => {
+    const [best] = rankPassages(
+      "Node.js 22 ships the V8 12.4 engine",
+      pages["https://a.example/"],
+    );
+
+    assert.equal(best.score, 1);
+    assert.match(best.text, /V8 12\.4 engine/);
+  });
+});
+
+describe("CitationVerifier", () => {
+  it("labels each citation by how well its source supports the claims", async () => {
+    const result = await new CitationVerifier(scraper).verify(
+      {
+        summary:
+          "Node.js 22 ships with the V8 12.4 engine.[1] Node.js 22 became LTS in March 2025 with Deno support.[1][2] Bun is fastest.[3]",
+        citations,
+      },
+      "lexical",
+    );
+
+    const [a, b, c] = result.citations;
+    assert.equal(a.verification?.status, "weak");
+    assert.deepEqual(
+      a.verification?.claims.map((check) => check.status),
+      ["supported", "weak"],
+    );
+    assert.equal(b.verification?.status, "unsupported");
+    assert.equal(b.verification?.claims[0].method, "lexical");
+    assert.equal(c.verification?.status, "unverified");
+    assert.match(c.verification?.reason ?? "", /404/);
+  });
+
+  it("reports sources no claim cites as unverified", async () => {
+    const result = await new CitationVerifier(scraper).verify(
+      { summary: "Nothing cited here.", citations: [citations[0]] },
+      "lexical",
+    );
+
+    assert.equal(result.citations[0].verification?.status, "unverified");
+  });
+
+  it("lets the model judge claims without a clear lexical match", async () => {
+    const judged: string[] = [];
+    const verifier = new CitationVerifier(scraper, async (claim, passages) => {
+      judged.push(claim);
+      assert.ok(passages.length > 0);
+      return "supported";
+    });
+
+    const result = await verifier.verify(
+      {
+        summary:
+          "Node.js 22 ships with the V8 12.4 engine.[1] Node's 22nd release reached long-term support in autumn 2024.[1]",
+        citations: [citations[0]],
+      },
+      "model",
+    );
+
+    const verification = result.citations[0].verification;
+    assert.deepEqual(judged, [
+      "Node's 22nd release reached long-term support in autumn 2024.",
+    ]);
+    assert.equal(verification?.status, "supported");
+    assert.deepEqual(
+      verification?.claims.map((check) => check.method),
+      ["lexical", "model"],
+    );
+  });
+});
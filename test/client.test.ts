@@ -0,0 +1,788 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { GeminiClient } from "../src/gemini/client";
+import type { SearchProvider } from "../src/gemini/providers/index";
+import type {
+  ConversationTurn,
+  GeminiOAuthResponse,
+} from "../src/types/gemini";
+import type { BatchProgress, SearchResult } from "../src/types/index";
+import { sleep } from "../src/utils/abort";
+import { tempDir } from "./helpers/env";
+import { groundedResponse } from "./helpers/fake-code-assist";
+import {
+  articleHtml,
+  type FakeSites,
+  startFakeSites,
+} from "./helpers/fake-sites";
+
+before(() => {
+  process.env.CACHE_ENABLED = "false";
+  // Don't let the shared scheduler's rate limits slow the tests down
+  process.env.BACKEND_RATE_LIMIT = "1000";
+  process.env.BACKEND_BURST = "1000";
+  // The fake sites listen on loopback
+  process.env.SCRAPE_ALLOW_PRIVATE_HOSTS = "127.0.0.1";
+});
+
+function textResponse(text: string): GeminiOAuthResponse {
+  return { candidates: [{ content: { parts: [{ text }] } }] };
+}
+
+function stubProvider(
+  search: (query: string) => GeminiOAuthResponse,
+  generate: (prompt: string) => GeminiOAuthResponse = () => {
+    throw new Error("generate not stubbed");
+  },
+): SearchProvider {
+  return {
+    name: "stub",
+    search: async (query) => search(query),
+    generate: async (prompt) => generate(prompt),
+  };
+}
+
+describe("GeminiClient.search", () => {
+  it("removes sentences the API repeated with different citations", async () => {
+    const client = new GeminiClient(
+      stubProvider(() =>
+        textResponse("Node is fast[1]. Node is fast[2]. Deno is new[3]."),
+      ),
+    );
+
+    const result = (await client.search("runtimes")) as SearchResult;
+
+    assert.equal(result.summary, "Node is fast[1]. Deno is new[3].");
+  });
+
+  it("prefers the cited copy of a repeated sentence", async () => {
+    const client = new GeminiClient(
+      stubProvider(() => textResponse("Node is fast. Node is fast[2].")),
+    );
+
+    const result = (await client.search("runtimes")) as SearchResult;
+
+    assert.equal(result.summary, "Node is fast[2].");
+  });
+
+  it("inserts citations from grounding supports", async () => {
+    const client = new GeminiClient(
+      stubProvider(() =>
+        groundedResponse(
+          [
+            { text: "Node is fast.", sources: [0] },
+            { text: "Deno is new.", sources: [1] },
+          ],
+          [
+            { uri: "https://nodejs.org/", title: "nodejs.org" },
+            { uri: "https://deno.com/", title: "deno.com" },
+          ],
+        ),
+      ),
+    );
+
+    const result = (await client.search("runtimes")) as SearchResult;
+
+    assert.equal(result.summary, "Node is fast.[1] Deno is new.[2]");
+    assert.deepEqual(
+      result.citations.map((citation) => citation.url),
+      ["https://nodejs.org/", "https://deno.com/"],
+    );
+  });
+
+  it("returns an error response when the provider has no candidates", async () => {
+    const client = new GeminiClient(stubProvider(() => ({ candidates: [] })));
+
+    const result = await client.search("nothing");
+
+    assert.ok("error" in result && result.error);
+  });
+});
+
+describe("GeminiClient.searchWithOptions", () => {
+  it("returns search results limited to maxResults", async () => {
+    const client = new GeminiClient(
+      stubProvider(() =>
+        groundedResponse(
+          [{ text: "Three sources agree.", sources: [0, 1, 2] }],
+          [
+            { uri: "https://a.example/", title: "A" },
+            { uri: "https://b.example/", title: "B" },
+            { uri: "https://c.example/", title: "C" },
+          ],
+        ),
+      ),
+    );
+
+    const result = (await client.searchWithOptions("q", {
+      includeSearchResults: true,
+      maxResults: 2,
+    })) as SearchResult;
+
+    assert.equal(result.searchResults?.length, 2);
+    assert.equal(result.targetResultCount, 2);
+  });
+});
+
+describe("GeminiClient domain filters", () => {
+  it("steers the query and reports filtered sources", async () => {
+    const queries: string[] = [];
+    const client = new GeminiClient(
+      stubProvider((query) => {
+        queries.push(query);
+        return groundedResponse(
+          [
+            { text: "Docs say so.", sources: [0] },
+            { text: "A farm agrees.", sources: [1] },
+          ],
+          [
+            { uri: "https://docs.python.org/3/", title: "Docs" },
+            { uri: "https://farm.example/", title: "Farm" },
+          ],
+        );
+      }),
+    );
+
+    const result = (await client.searchWithOptions("asyncio", {
+      includeSearchResults: true,
+      includeDomains: ["python.org"],
+    })) as SearchResult;
+
+    assert.match(queries[0], /site:python\.org/);
+    assert.deepEqual(
+      result.citations.map((citation) => citation.url),
+      ["https://docs.python.org/3/"],
+    );
+    assert.deepEqual(
+      result.searchResults?.map((searchResult) => searchResult.url),
+      ["https://docs.python.org/3/"],
+    );
+    assert.deepEqual(result.excludedSources, [
+      {
+        title: "Farm",
+        url: "https://farm.example/",
+        reason: "not in the included domains",
+      },
+    ]);
+  });
+
+  it("blocks scraping of filtered URLs without fetching them", async () => {
+    const client = new GeminiClient(stubProvider(() => textResponse("")));
+
+    const response = await client.scrapeUrls(["http://127.0.0.1:1/page"], {
+      excludeDomains: ["127.0.0.1"],
+    });
+
+    assert.equal(
+      response.results[0].error,
+      "Blocked by domain filter: excluded domain 127.0.0.1",
+    );
+  });
+});
+
+describe("GeminiClient credential reporting", () => {
+  it("reports the pooled credential that served the search", async () => {
+    const client = new GeminiClient(
+      stubProvider(() => ({
+        ...textResponse("Answer[1]."),
+        credential: "api-key-2",
+      })),
+    );
+
+    const result = (await client.search("q")) as SearchResult;
+
+    assert.equal(result.credential, "api-key-2");
+  });
+
+  it("names no credential on answers served from the cache", async () => {
+    process.env.CACHE_ENABLED = "true";
+    process.env.CACHE_DIR = tempDir("cache");
+    let calls = 0;
+    const client = new GeminiClient(
+      stubProvider(() => {
+        calls++;
+        return { ...textResponse("Answer[1]."), credential: "api-key-2" };
+      }),
+    );
+    process.env.CACHE_ENABLED = "false";
+    delete process.env.CACHE_DIR;
+
+    const fresh = (await client.search("q")) as SearchResult;
+    const cached = (await client.search("q")) as SearchResult;
+
+    assert.equal(calls, 1);
+    assert.equal(fresh.credential, "api-key-2");
+    assert.equal(cached.credential, undefined);
+    assert.equal(cached.summary, fresh.summary);
+  });
+});
+
+describe("GeminiClient.batchSearch progress", () => {
+  let sites: FakeSites;
+
+  before(async () => {
+    sites = await startFakeSites({
+      "/node": { body: articleHtml("Node", ["Node is fast. ".repeat(20)]) },
+    });
+  });
+
+  after(() => sites.close());
+
+  it("reports every stage of a query", async () => {
+    process.env.BACKEND_RETRY_DELAY = "5";
+    let calls = 0;
+    const client = new GeminiClient(
+      stubProvider(() => {
+        calls++;
+        if (calls === 1) {
+          throw new Error("429 RESOURCE_EXHAUSTED");
+        }
+        return groundedResponse(
+          [{ text: "Node is fast.", sources: [0] }],
+          [{ uri: `${sites.url}/node`, title: "Node" }],
+        );
+      }),
+    );
+    const progress: BatchProgress[] = [];
+
+    await client.batchSearch(["runtimes"], {
+      scrapeContent: true,
+      contentMode: "full",
+      onProgress: (event) => progress.push(event),
+    });
+
+    assert.deepEqual(
+      progress.map((event) => event.stage),
+      ["query-started", "retry", "answer-received", "url-scraped"],
+    );
+    assert.match(progress[1].message, /^Query 1\/1: .*attempt 1 .*429/);
+    assert.equal(progress[3].message, `Query 1/1: scraped ${sites.url}/node`);
+  });
+});
+
+describe("GeminiClient citation verification", () => {
+  let sites: FakeSites;
+
+  before(async () => {
+    sites = await startFakeSites({
+      "/streams": {
+        body: articleHtml("Streams", [
+          "Readable streams emit data in chunks that consumers process one at a time.",
+          "Writable streams accept chunks and signal backpressure when their buffer fills up.",
+          "Transform streams sit between the two and change chunks as they pass through.",
+        ]),
+      },
+    });
+  });
+
+  after(() => sites.close());
+
+  it("labels citations of a search and of each batch query", async () => {
+    const client = new GeminiClient(
+      stubProvider(() =>
+        groundedResponse(
+          [
+            {
+              text: "Readable streams emit data in chunks.",
+              sources: [0],
+            },
+            { text: "Streams were invented in 1962.", sources: [0] },
+          ],
+          [{ uri: `${sites.url}/streams`, title: "Streams" }],
+        ),
+      ),
+    );
+
+    const result = await client.searchWithOptions("streams", {
+      verifyCitations: "lexical",
+    });
+    assert.ok(!("error" in result));
+    const verification = result.citations[0].verification;
+    assert.equal(verification?.status, "unsupported");
+    assert.deepEqual(
+      verification?.claims.map((check) => check.status),
+      ["supported", "unsupported"],
+    );
+
+    const batch = await client.batchSearch(["streams"], {
+      scrapeContent: false,
+      verifyCitations: "lexical",
+    });
+    assert.equal(
+      batch.results[0].citations?.[0].verification?.status,
+      "unsupported",
+    );
+  });
+});
+
+describe("GeminiClient batch synthesis", () => {
+  it("merges the answers into one report with one bibliography", async () => {
+    let prompt = "";
+    const client = new GeminiClient(
+      stubProvider(
+        (query) =>
+          groundedResponse(
+            [{ text: `${query} is fast.`, sources: [0, 1] }],
+            [
+              { uri: `https://${query}.example/`, title: query },
+              { uri: "https://bench.example/", title: "Bench" },
+            ],
+          ),
+        (text) => {
+          prompt = text;
+          return textResponse(
+            "Both runtimes are fast.[1][2][3]\n\nCONTRADICTIONS:\n- None",
+          );
+        },
+      ),
+    );
+
+    const response = await client.batchSearch(["bun", "deno"], {
+      scrapeContent: false,
+      synthesize: true,
+    });
+
+    assert.match(prompt, /## bun\n\nbun is fast\.\[1\]\[2\]/);
+    assert.match(prompt, /## deno\n\ndeno is fast\.\[3\]\[2\]/);
+    assert.equal(
+      response.synthesis?.report,
+      "Both runtimes are fast.[1][2][3]",
+    );
+    assert.deepEqual(response.synthesis?.contradictions, []);
+    assert.deepEqual(
+      response.synthesis?.sources.map((source) => source.url),
+      [
+        "https://bun.example/",
+        "https://bench.example/",
+        "https://deno.example/",
+      ],
+    );
+    assert.equal(response.results[1].summary, "deno is fast.[3][2]");
+  });
+
+  it("stitches the answers together when synthesis fails", async () => {
+    const client = new GeminiClient(
+      stubProvider((query) =>
+        groundedResponse(
+          [{ text: `${query} is fast.`, sources: [0] }],
+          [{ uri: `https://${query}.example/`, title: query }],
+        ),
+      ),
+    );
+
+    const response = await client.batchSearch(["bun", "deno"], {
+      scrapeContent: false,
+      synthesize: true,
+    });
+
+    assert.match(response.synthesis?.error ?? "", /Synthesis failed/);
+    assert.equal(
+      response.synthesis?.report,
+      "## bun\n\nbun is fast.[1]\n\n## deno\n\ndeno is fast.[2]",
+    );
+  });
+});
+
+describe("GeminiClient.deepResearch", () => {
+  // Generate stub answering planning, gap analysis and synthesis prompts
+  function researcher(gaps: string[]): (prompt: string) => GeminiOAuthResponse {
+    return (prompt) => {
+      if (prompt.startsWith("You are planning")) {
+        return textResponse("- bun speed\n- deno speed");
+      }
+      if (prompt.startsWith("You are researching")) {
+        return textResponse(gaps.shift() ?? "NONE");
+      }
+      return textResponse(
+        "Bun and Deno are fast.[1][2]\n\nCONTRADICTIONS:\n- None",
+      );
+    };
+  }
+
+  function runtimeProvider(gaps: string[]): SearchProvider {
+    return stubProvider(
+      (query) =>
+        groundedResponse(
+          [{ text: `${query} is measured.`, sources: [0] }],
+          [{ uri: `https://${query.split(" ")[0]}.example/`, title: query }],
+        ),
+      researcher(gaps),
+    );
+  }
+
+  it("searches follow-up queries until nothing is left open", async () => {
+    const stages: string[] = [];
+    const client = new GeminiClient(
+      runtimeProvider(["- node speed\n- bun speed"]),
+    );
+
+    const result = await client.deepResearch("Which runtime is fastest?", {
+      scrapeContent: false,
+      onProgress: (progress) => stages.push(progress.stage),
+    });
+
+    assert.deepEqual(result.rounds, [
+      {
+        round: 1,
+        queries: ["bun speed", "deno speed"],
+        followUps: ["node speed"],
+      },
+      { round: 2, queries: ["node speed"], followUps: [] },
+    ]);
+    assert.equal(result.stopReason, "answered");
+    assert.deepEqual(result.openQuestions, []);
+    assert.equal(result.report, "Bun and Deno are fast.[1][2]");
+    assert.deepEqual(
+      result.sources.map((source) => source.url),
+      [
+        "https://bun.example/",
+        "https://deno.example/",
+        "https://node.example/",
+      ],
+    );
+    assert.equal(stages[0], "planning");
+    assert.equal(stages.at(-1), "synthesizing");
+  });
+
+  it("stops at the round limit and reports the open questions", async () => {
+    const client = new GeminiClient(runtimeProvider(["- node speed"]));
+
+    const result = await client.deepResearch("Which runtime is fastest?", {
+      scrapeContent: false,
+      maxRounds: 1,
+    });
+
+    assert.equal(result.stopReason, "max-rounds");
+    assert.deepEqual(result.openQuestions, ["node speed"]);
+    assert.equal(result.results.length, 2);
+  });
+
+  it("cuts a slow round short when the time budget runs out", async () => {
+    let reportPrompt = "";
+    const client = new GeminiClient({
+      name: "stub",
+      search: async (query, _model, options) => {
+        if (query === "deno speed") {
+          await sleep(10_000, options?.signal);
+        }
+        return groundedResponse(
+          [{ text: `${query} is measured.`, sources: [0] }],
+          [{ uri: "https://bun.example/", title: query }],
+        );
+      },
+      generate: async (prompt) => {
+        if (!prompt.startsWith("You are")) {
+          reportPrompt = prompt;
+        }
+        return researcher([])(prompt);
+      },
+    });
+    const begin = Date.now();
+
+    const result = await client.deepResearch("Which runtime is fastest?", {
+      scrapeContent: false,
+      timeBudget: 400,
+    });
+
+    assert.ok(Date.now() - begin < 2000);
+    assert.equal(result.stopReason, "time-budget");
+    assert.equal(result.results[0].summary, "bun speed is measured.[1]");
+    assert.match(result.results[1].error ?? "", /time budget/);
+    assert.match(reportPrompt, /bun speed is measured/);
+    assert.equal(result.report, "Bun and Deno are fast.[1]");
+  });
+
+  it("stops once the query budget is spent", async () => {
+    const client = new GeminiClient(runtimeProvider(["- node speed"]));
+
+    const result = await client.deepResearch("Which runtime is fastest?", {
+      scrapeContent: false,
+      maxQueries: 1,
+    });
+
+    assert.deepEqual(result.rounds[0].queries, ["bun speed"]);
+    assert.equal(result.stopReason, "max-queries");
+  });
+});
+
+describe("GeminiClient freshness", () => {
+  let sites: FakeSites;
+
+  // Article with a publication date in its <meta> tags
+  function datedArticle(title: string, date: string): string {
+    return articleHtml(title, [
+      `${title} covers runtimes. `.repeat(20),
+    ]).replace(
+      "</title>",
+      `</title><meta property="article:published_time" content="${date}">`,
+    );
+  }
+
+  before(async () => {
+    sites = await startFakeSites({
+      "/old": { body: datedArticle("Old", "2015-02-01T00:00:00Z") },
+      "/new": { body: datedArticle("New", new Date().toISOString()) },
+    });
+  });
+
+  after(() => sites.close());
+
+  it("steers the query, marks stale pages and sorts them by date", async () => {
+    const queries: string[] = [];
+    const client = new GeminiClient(
+      stubProvider((query) => {
+        queries.push(query);
+        return groundedResponse(
+          [{ text: "Runtimes changed.", sources: [0, 1] }],
+          [
+            { uri: `${sites.url}/old`, title: "Old" },
+            { uri: `${sites.url}/new`, title: "New" },
+          ],
+        );
+      }),
+    );
+
+    const response = await client.batchSearch(["runtimes"], {
+      scrapeContent: true,
+      freshness: "year",
+      sortByDate: true,
+    });
+
+    assert.match(queries[0], /after:\d{4}-\d{2}-\d{2}$/);
+    const scraped = response.results[0].scrapedContent ?? [];
+    assert.deepEqual(
+      scraped.map((content) => [content.title, content.stale ?? false]),
+      [
+        ["New", false],
+        ["Old", true],
+      ],
+    );
+    assert.equal(scraped[1].publishedAt, "2015-02-01T00:00:00.000Z");
+  });
+});
+
+describe("GeminiClient cancellation", () => {
+  let redirects: FakeSites;
+
+  before(async () => {
+    redirects = await startFakeSites({
+      "/grounding-api-redirect/slow": {
+        redirect: "https://docs.example/",
+        delay: 2000,
+      },
+    });
+  });
+
+  after(async () => {
+    delete process.env.GROUNDING_REDIRECT_HOSTS;
+    await redirects.close();
+  });
+
+  it("stops resolving citation redirects when the search is cancelled", async () => {
+    process.env.GROUNDING_REDIRECT_HOSTS = redirects.host;
+    const client = new GeminiClient(
+      stubProvider(() =>
+        groundedResponse(
+          [{ text: "Docs say so.", sources: [0] }],
+          [{ uri: `${redirects.url}/grounding-api-redirect/slow`, title: "D" }],
+        ),
+      ),
+    );
+    const controller = new AbortController();
+
+    const pending = client.searchWithOptions("docs", {
+      signal: controller.signal,
+    });
+    while (!redirects.hits.has("/grounding-api-redirect/slow")) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    controller.abort(new Error("cancelled"));
+
+    await assert.rejects(pending, /cancelled/);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.ok(redirects.aborted.has("/grounding-api-redirect/slow"));
+  });
+});
+
+describe("GeminiClient follow-up sessions", () => {
+  function recordingProvider(histories: ConversationTurn[][]): SearchProvider {
+    return {
+      name: "stub",
+      search: async (query, _model, options) => {
+        histories.push(options?.history ?? []);
+        return textResponse(`Answer to ${query}[1].`);
+      },
+      generate: async () => textResponse(""),
+    };
+  }
+
+  it("sends earlier questions and answers of the session", async () => {
+    const histories: ConversationTurn[][] = [];
+    const client = new GeminiClient(recordingProvider(histories));
+
+    await client.searchWithOptions("first", { sessionId: "s1" });
+    const result = (await client.searchWithOptions("second", {
+      sessionId: "s1",
+    })) as SearchResult;
+
+    assert.deepEqual(histories[1], [
+      { role: "user", text: "first" },
+      { role: "model", text: "Answer to first." },
+    ]);
+    assert.deepEqual(result.session, { id: "s1", turn: 2 });
+  });
+
+  it("keeps sessions apart and can reset one", async () => {
+    const histories: ConversationTurn[][] = [];
+    const client = new GeminiClient(recordingProvider(histories));
+
+    await client.searchWithOptions("first", { sessionId: "s1" });
+    await client.searchWithOptions("other", { sessionId: "s2" });
+    const result = (await client.searchWithOptions("again", {
+      sessionId: "s1",
+      resetSession: true,
+    })) as SearchResult;
+
+    assert.deepEqual(histories[1], []);
+    assert.deepEqual(histories[2], []);
+    assert.deepEqual(result.session, { id: "s1", turn: 1 });
+  });
+
+  it("keeps the same session ID apart in different scopes", async () => {
+    const histories: ConversationTurn[][] = [];
+    const client = new GeminiClient(recordingProvider(histories));
+
+    await client.searchWithOptions("first", {
+      sessionId: "s1",
+      sessionScope: "transport-a",
+    });
+    const result = (await client.searchWithOptions("second", {
+      sessionId: "s1",
+      sessionScope: "transport-b",
+    })) as SearchResult;
+
+    assert.deepEqual(histories[1], []);
+    assert.deepEqual(result.session, { id: "s1", turn: 1 });
+  });
+
+  it("does not record failed searches", async () => {
+    let fail = true;
+    const histories: ConversationTurn[][] = [];
+    const client = new GeminiClient({
+      name: "stub",
+      search: async (query, _model, options) => {
+        histories.push(options?.history ?? []);
+        return fail ? { candidates: [] } : textResponse(`Answer to ${query}`);
+      },
+      generate: async () => textResponse(""),
+    });
+
+    const failed = await client.searchWithOptions("first", { sessionId: "s" });
+    fail = false;
+    await client.searchWithOptions("second", { sessionId: "s" });
+
+    assert.ok("error" in failed && failed.error);
+    assert.deepEqual(histories[1], []);
+  });
+});
+
+describe("GeminiClient.summarize", () => {
+  it("falls back to truncation when generation fails", async () => {
+    const client = new GeminiClient(stubProvider(() => textResponse("")));
+
+    const summary = await client.summarize("x".repeat(100), 10);
+
+    assert.equal(summary.text, `${"x".repeat(10)}...`);
+    assert.equal(summary.coverage.truncated, true);
+  });
+
+  it("summarizes long texts chunk by chunk and merges the summaries", async () => {
+    process.env.SUMMARY_CHUNK_SIZE = "100";
+    process.env.SUMMARY_MAX_CHUNKS = "3";
+    const prompts: string[] = [];
+    const client = new GeminiClient(
+      stubProvider(
+        () => textResponse(""),
+        (prompt) => {
+          prompts.push(prompt);
+          if (prompt.includes("Merge them")) {
+            return textResponse("Merged summary");
+          }
+          // The second part fails and is left out
+          if (prompt.includes("Section 2")) {
+            throw new Error("500 Internal error");
+          }
+          const section = prompt.match(/Section \d/)?.[0];
+          return textResponse(`Summary of ${section}`);
+        },
+      ),
+    );
+    delete process.env.SUMMARY_CHUNK_SIZE;
+    delete process.env.SUMMARY_MAX_CHUNKS;
+    const text = [1, 2, 3, 4]
+      .map((n) => `## Section ${n}\n\n${"Some text. ".repeat(6)}`)
+      .join("\n\n");
+
+    const summary = await client.summarize(text, 200);
+
+    assert.equal(summary.text, "Merged summary");
+    assert.deepEqual(summary.coverage, {
+      chunks: 4,
+      summarizedChunks: 2,
+      droppedChunks: 2,
+      truncated: false,
+    });
+    assert.equal(prompts.length, 4);
+    const merge = prompts.find((prompt) => prompt.includes("Merge them"));
+    assert.match(merge ?? "", /Summary of Section 1\n\nSummary of Section 3$/);
+  });
+
+  it("aims the summary at the query and locates its quotes", async () => {
+    let prompt = "";
+    const client = new GeminiClient(
+      stubProvider(
+        () => textResponse(""),
+        (text) => {
+          prompt = text;
+          return textResponse(
+            "Streams split data into chunks.\n\nQUOTES:\n- Streams are sequences of chunks.\n- Made-up passage.",
+          );
+        },
+      ),
+    );
+    const text = "# Streams\n\nStreams are sequences of chunks.";
+
+    const summary = await client.summarize(text, 100, {
+      query: "what is a stream?",
+    });
+
+    assert.match(prompt, /this question: "what is a stream\?"/);
+    assert.equal(summary.text, "Streams split data into chunks.");
+    assert.deepEqual(summary.quotes, [
+      {
+        text: "Streams are sequences of chunks.",
+        offset: 11,
+        line: 3,
+        section: "Streams",
+      },
+    ]);
+  });
+
+  it("falls back to excerpts of every chunk when all chunks fail", async () => {
+    process.env.SUMMARY_CHUNK_SIZE = "100";
+    const client = new GeminiClient(stubProvider(() => textResponse("")));
+    delete process.env.SUMMARY_CHUNK_SIZE;
+    const text = [1, 2]
+      .map((n) => `## Section ${n}\n\n${"Some text. ".repeat(6)}`)
+      .join("\n\n");
+
+    const summary = await client.summarize(text, 40);
+
+    assert.equal(
+      summary.text,
+      "## Section 1\n\nSome t...\n\n## Section 2\n\nSome t...",
+    );
+    assert.equal(summary.coverage.truncated, true);
+    assert.equal(summary.coverage.summarizedChunks, 0);
+  });
+});
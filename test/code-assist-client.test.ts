@@ -0,0 +1,177 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { AuthConfig } from "../src/auth/config";
+import { CodeAssistClient } from "../src/gemini/code-assist-client";
+import { createOAuthHome } from "./helpers/env";
+import {
+  type FakeCodeAssist,
+  startFakeCodeAssist,
+} from "./helpers/fake-code-assist";
+
+const response = {
+  candidates: [{ content: { parts: [{ text: "Hello" }] } }],
+};
+
+before(() => {
+  delete process.env.GEMINI_API_KEY;
+  process.env.HOME = createOAuthHome({
+    access_token: "test-access-token",
+    expiry_date: Date.now() + 3600_000,
+  });
+});
+
+describe("CodeAssistClient.ensureProjectId", () => {
+  let fake: FakeCodeAssist;
+
+  after(() => fake.close());
+
+  it("onboards with the default tier and polls until the operation is done", async () => {
+    fake = await startFakeCodeAssist({
+      pollsUntilDone: 2,
+      onboardedProjectId: "project-from-onboarding",
+      defaultResponse: response,
+    });
+    const client = new CodeAssistClient(new AuthConfig(), {
+      baseURL: fake.url,
+      pollingIntervalMs: 5,
+    });
+
+    assert.equal(await client.ensureProjectId(), "project-from-onboarding");
+
+    const onboard = fake.requests.find(
+      (request) => request.path === "/v1internal:onboardUser",
+    );
+    assert.deepEqual(JSON.parse(onboard?.body ?? "{}"), { tier: "free-tier" });
+    assert.equal(
+      fake.requests.filter(
+        (request) => request.path === "/operations/onboard-1",
+      ).length,
+      2,
+    );
+
+    // The project ID is cached after onboarding
+    const requestCount = fake.requests.length;
+    await client.ensureProjectId();
+    assert.equal(fake.requests.length, requestCount);
+  });
+});
+
+describe("CodeAssistClient.generateContent", () => {
+  let fake: FakeCodeAssist;
+
+  after(() => fake.close());
+
+  it("sends the project and a googleSearch tool", async () => {
+    fake = await startFakeCodeAssist({
+      projectId: "existing-project",
+      defaultResponse: response,
+    });
+    const client = new CodeAssistClient(new AuthConfig(), {
+      baseURL: fake.url,
+    });
+
+    const result = await client.generateContent("gemini-2.5-flash", "hi");
+
+    assert.deepEqual(result, response);
+    const generate = fake.requests.find(
+      (request) => request.path === "/v1internal:generateContent",
+    );
+    const body = JSON.parse(generate?.body ?? "{}");
+    assert.equal(body.project, "existing-project");
+    assert.equal(body.model, "gemini-2.5-flash");
+    assert.deepEqual(body.request.tools, [{ googleSearch: {} }]);
+    assert.equal(generate?.headers.authorization, "Bearer test-access-token");
+  });
+
+  it("sends earlier turns before the query", async () => {
+    const client = new CodeAssistClient(new AuthConfig(), {
+      baseURL: fake.url,
+    });
+
+    await client.generateContent("gemini-2.5-flash", "and on Windows?", {
+      history: [
+        { role: "user", text: "Is Node fast?" },
+        { role: "model", text: "Yes." },
+      ],
+    });
+
+    const generate = fake.requests
+      .filter((request) => request.path === "/v1internal:generateContent")
+      .at(-1);
+    assert.deepEqual(JSON.parse(generate?.body ?? "{}").request.contents, [
+      { role: "user", parts: [{ text: "Is Node fast?" }] },
+      { role: "model", parts: [{ text: "Yes." }] },
+      { role: "user", parts: [{ text: "and on Windows?" }] },
+    ]);
+  });
+
+  it("retries 429 responses with backoff", async () => {
+    await fake.close();
+    fake = await startFakeCodeAssist({
+      projectId: "existing-project",
+      rateLimitResponses: 2,
+      defaultResponse: response,
+    });
+    const client = new CodeAssistClient(new AuthConfig(), {
+      baseURL: fake.url,
+      retryDelayMs: 5,
+    });
+
+    assert.deepEqual(
+      await client.generateContent("gemini-2.5-flash", "hi"),
+      response,
+    );
+    assert.equal(
+      fake.requests.filter(
+        (request) => request.path === "/v1internal:generateContent",
+      ).length,
+      3,
+    );
+  });
+
+  it("gives up after the retry limit", async () => {
+    await fake.close();
+    fake = await startFakeCodeAssist({
+      projectId: "existing-project",
+      rateLimitResponses: 10,
+      defaultResponse: response,
+    });
+    const client = new CodeAssistClient(new AuthConfig(), {
+      baseURL: fake.url,
+      retryDelayMs: 5,
+    });
+
+    await assert.rejects(
+      client.generateContent("gemini-2.5-flash", "hi"),
+      /429/,
+    );
+  });
+
+  it("stops retrying as soon as the signal aborts", async () => {
+    await fake.close();
+    fake = await startFakeCodeAssist({
+      projectId: "existing-project",
+      rateLimitResponses: 10,
+      defaultResponse: response,
+    });
+    const client = new CodeAssistClient(new AuthConfig(), {
+      baseURL: fake.url,
+      retryDelayMs: 10_000,
+    });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error("cancelled")), 50);
+
+    await assert.rejects(
+      client.generateContent("gemini-2.5-flash", "hi", {
+        signal: controller.signal,
+      }),
+      /cancelled/,
+    );
+    assert.equal(
+      fake.requests.filter(
+        (request) => request.path === "/v1internal:generateContent",
+      ).length,
+      1,
+    );
+  });
+});
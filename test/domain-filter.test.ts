@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DomainFilter } from "../src/utils/domain-filter";
+
+describe("DomainFilter", () => {
+  it("matches domains and their subdomains", () => {
+    const filter = new DomainFilter({
+      includeDomains: ["*.python.org", "developer.mozilla.org"],
+      excludeDomains: ["wiki.python.org"],
+    });
+
+    assert.equal(filter.check("https://docs.python.org/3/"), undefined);
+    assert.equal(filter.check("https://python.org/"), undefined);
+    assert.equal(
+      filter.check("https://developer.mozilla.org/en-US/docs/Web"),
+      undefined,
+    );
+    assert.equal(
+      filter.check("https://wiki.python.org/moin/"),
+      "excluded domain wiki.python.org",
+    );
+    assert.equal(
+      filter.check("https://notpython.org/"),
+      "not in the included domains",
+    );
+  });
+
+  it("requires every include list to match once narrowed", () => {
+    const filter = new DomainFilter({
+      includeDomains: ["python.org", "mozilla.org"],
+    }).narrow({ includeDomains: ["docs.python.org"] });
+
+    assert.equal(filter.check("https://docs.python.org/3/"), undefined);
+    assert.ok(filter.check("https://developer.mozilla.org/"));
+    assert.match(filter.steer("asyncio"), /site:docs\.python\.org$/);
+  });
+
+  it("renumbers kept citations and reports the dropped ones", () => {
+    const filter = new DomainFilter({ excludeDomains: ["farm.example"] });
+
+    const result = filter.apply({
+      summary: "Fact one.[1] Fact two.[2][3]",
+      citations: [
+        { number: 1, title: "Farm", url: "https://farm.example/a" },
+        { number: 2, title: "Docs", url: "https://docs.example/b" },
+        { number: 3, title: "Blog", url: "https://blog.example/c" },
+      ],
+      searchResults: [
+        { title: "Farm", url: "https://farm.example/a", snippet: "" },
+        { title: "Docs", url: "https://docs.example/b", snippet: "" },
+      ],
+    });
+
+    assert.equal(result.summary, "Fact one. Fact two.[1][2]");
+    assert.deepEqual(
+      result.citations.map((citation) => [citation.number, citation.title]),
+      [
+        [1, "Docs"],
+        [2, "Blog"],
+      ],
+    );
+    assert.deepEqual(
+      result.searchResults?.map((searchResult) => searchResult.title),
+      ["Docs"],
+    );
+    assert.deepEqual(result.excludedSources, [
+      {
+        title: "Farm",
+        url: "https://farm.example/a",
+        reason: "excluded domain farm.example",
+      },
+    ]);
+  });
+
+  it("leaves results alone when no domains are configured", () => {
+    const result = { summary: "Text.[1]", citations: [] };
+
+    assert.equal(new DomainFilter().apply(result), result);
+    assert.equal(new DomainFilter().steer("query"), "query");
+  });
+});
@@ -0,0 +1,214 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { createOAuthHome, tempDir } from "./helpers/env";
+import {
+  type FakeCodeAssist,
+  groundedResponse,
+  startFakeCodeAssist,
+} from "./helpers/fake-code-assist";
+import {
+  articleHtml,
+  type FakeSites,
+  startFakeSites,
+} from "./helpers/fake-sites";
+
+const paragraphs = Array.from(
+  { length: 6 },
+  (_, index) =>
+    `Section ${index + 1} describes how the event loop processes timers, pending callbacks and I/O polling in order.`,
+);
+
+function text(result: CallToolResult): string {
+  return result.content
+    .map((item) => (item.type === "text" ? item.text : ""))
+    .join("");
+}
+
+// Drives the real MCP server over stdio against the fake Code Assist API,
+// fake OAuth token endpoint and fake websites
+describe("MCP server over stdio", { timeout: 60_000 }, () => {
+  let codeAssist: FakeCodeAssist;
+  let sites: FakeSites;
+  let redirects: FakeSites;
+  let client: Client;
+
+  before(async () => {
+    sites = await startFakeSites({
+      "/event-loop": { body: articleHtml("Event Loop", paragraphs) },
+      "/timers": { body: articleHtml("Timers", paragraphs) },
+    });
+    redirects = await startFakeSites({
+      "/grounding-api-redirect/1": { redirect: `${sites.url}/event-loop` },
+      "/grounding-api-redirect/2": { redirect: `${sites.url}/timers` },
+    });
+
+    const response = groundedResponse(
+      [
+        { text: "The event loop runs callbacks in phases.", sources: [0] },
+        { text: "Timers run in the first phase.", sources: [1, 0] },
+      ],
+      [
+        {
+          uri: `${redirects.url}/grounding-api-redirect/1`,
+          title: "Event Loop",
+        },
+        { uri: `${redirects.url}/grounding-api-redirect/2`, title: "Timers" },
+      ],
+    );
+    codeAssist = await startFakeCodeAssist({
+      pollsUntilDone: 1,
+      responses: { "how does the event loop work": response },
+    });
+
+    const transport = new StdioClientTransport({
+      command: process.execPath,
+      args: ["--import", "tsx", join(__dirname, "..", "src", "index.ts")],
+      cwd: join(__dirname, ".."),
+      env: {
+        PATH: process.env.PATH ?? "",
+        // Keep a local .env from switching the server to API key auth
+        GEMINI_API_KEY: "",
+        // Expired token forces a refresh through the fake token endpoint
+        HOME: createOAuthHome({
+          access_token: "expired-token",
+          expiry_date: Date.now() - 1000,
+        }),
+        CODE_ASSIST_ENDPOINT: codeAssist.url,
+        OAUTH_TOKEN_ENDPOINT: `${codeAssist.url}/token`,
+        GROUNDING_REDIRECT_HOSTS: redirects.host,
+        CACHE_DIR: tempDir("cache"),
+        SCRAPE_RETRIES: "1",
+        BACKEND_RATE_LIMIT: "1000",
+        HOST_RATE_LIMIT: "1000",
+        // The fake sites listen on loopback
+        SCRAPE_ALLOW_PRIVATE_HOSTS: "127.0.0.1",
+      },
+      stderr: "pipe",
+    });
+    client = new Client({ name: "e2e", version: "1.0.0" });
+    await client.connect(transport);
+  });
+
+  after(async () => {
+    await client?.close();
+    await Promise.all([
+      codeAssist?.close(),
+      sites?.close(),
+      redirects?.close(),
+    ]);
+  });
+
+  it("lists the tools", async () => {
+    const { tools } = await client.listTools();
+
+    assert.deepEqual(
+      tools.map((tool) => tool.name),
+      ["google_search", "google_search_batch", "scrape_url", "deep_research"],
+    );
+  });
+
+  it("answers google_search with resolved citations", async () => {
+    const result = (await client.callTool({
+      name: "google_search",
+      arguments: {
+        query: "how does the event loop work",
+        includeSearchResults: true,
+      },
+    })) as CallToolResult;
+
+    assert.match(
+      text(result),
+      /The event loop runs callbacks in phases\.\[1\]/,
+    );
+    assert.match(text(result), new RegExp(`${sites.url}/event-loop`));
+
+    const structured = result.structuredContent as {
+      sources: Array<{ url: string; originalUrl?: string }>;
+      segments: Array<{ citationIds: number[] }>;
+    };
+    assert.deepEqual(
+      structured.sources.map((source) => source.url),
+      [`${sites.url}/event-loop`, `${sites.url}/timers`],
+    );
+    assert.equal(
+      structured.sources[0].originalUrl,
+      `${redirects.url}/grounding-api-redirect/1`,
+    );
+    assert.deepEqual(structured.segments[1].citationIds, [2, 1]);
+
+    // The server onboarded and refreshed the expired token on the way
+    const paths = codeAssist.requests.map((request) => request.path);
+    assert.ok(paths.includes("/token"));
+    assert.ok(paths.includes("/v1internal:onboardUser"));
+  });
+
+  it("scrapes search results in google_search_batch", async () => {
+    const progress: Array<{ progress: number; message?: string }> = [];
+    const result = (await client.callTool(
+      {
+        name: "google_search_batch",
+        arguments: {
+          queries: ["how does the event loop work", "unknown query"],
+          contentMode: "full",
+        },
+      },
+      undefined,
+      { onprogress: (event) => progress.push(event) },
+    )) as CallToolResult;
+
+    const structured = result.structuredContent as {
+      results: Array<{
+        error?: string;
+        scrapedContent?: Array<{ title: string; error?: string }>;
+      }>;
+    };
+    assert.deepEqual(
+      structured.results[0].scrapedContent?.map((content) => content.title),
+      ["Event Loop", "Timers"],
+    );
+    assert.ok(structured.results[1].error);
+    assert.match(text(result), /2 succeeded, 0 failed/);
+
+    // Progress notifications count up and name each stage
+    assert.deepEqual(
+      progress.map((event) => event.progress),
+      progress.map((_, index) => index + 1),
+    );
+    const messages = progress.map((event) => event.message ?? "");
+    assert.ok(
+      messages.includes('Query 1/2: searching "how does the event loop work"'),
+    );
+    assert.ok(messages.includes("Query 1/2: answer received with 2 sources"));
+    assert.ok(
+      messages.some((message) => message.startsWith("Query 2/2: failed")),
+    );
+  });
+
+  it("returns full Markdown from scrape_url", async () => {
+    const result = (await client.callTool({
+      name: "scrape_url",
+      arguments: { urls: [`${sites.url}/timers`, `${sites.url}/missing`] },
+    })) as CallToolResult;
+
+    assert.match(text(result), /Section 6 describes/);
+    assert.match(text(result), /Failed: .*\/missing/);
+  });
+
+  it("rejects invalid arguments", async () => {
+    await assert.rejects(
+      client.callTool({ name: "google_search", arguments: {} }),
+      /Query parameter is required/,
+    );
+    await assert.rejects(
+      client.callTool({
+        name: "scrape_url",
+        arguments: { urls: [`${sites.url}/timers`], maxContentLength: 0 },
+      }),
+      /maxContentLength must be a positive integer/,
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractDocument } from "../src/utils/extractors/index";
+import { parsePdfDate } from "../src/utils/extractors/pdf";
+import type { SafeResponse } from "../src/utils/safe-fetch";
+import { pdfDocument } from "./helpers/fake-sites";
+
+function response(
+  body: string,
+  contentType: string,
+  url = "https://example.com/docs/guide",
+): SafeResponse {
+  const bytes = Buffer.from(body, "latin1");
+  return {
+    url,
+    status: 200,
+    ok: true,
+    contentType,
+    body: bytes,
+    text: () => bytes.toString("utf-8"),
+  };
+}
+
+describe("extractDocument", () => {
+  it("extracts PDF text, title and dates", async () => {
+    const document = await extractDocument(
+      response(
+        pdfDocument(
+          ["Section 1: Scope", "This specification defines streams."],
+          "/Title (Streams Spec) /CreationDate (D:20240115103000+01'00')",
+        ),
+        "application/pdf",
+      ),
+    );
+
+    assert.equal(document.title, "Streams Spec");
+    assert.match(document.markdown, /Section 1: Scope\nThis specification/);
+    assert.equal(document.publishedAt, "2024-01-15T09:30:00.000Z");
+  });
+
+  it("passes Markdown and plain text through", async () => {
+    const document = await extractDocument(
+      response(
+        "Intro\r\n\r\n# Project README\r\n\r\nUsage notes.",
+        "text/markdown",
+      ),
+    );
+
+    assert.equal(document.title, "Project README");
+    assert.equal(
+      document.markdown,
+      "Intro\n\n# Project README\n\nUsage notes.",
+    );
+  });
+
+  it("pretty-prints JSON", async () => {
+    const document = await extractDocument(
+      response('{"openapi":"3.1.0","paths":{}}', "application/json"),
+    );
+
+    assert.equal(document.title, "guide");
+    assert.equal(
+      document.markdown,
+      '```json\n{\n  "openapi": "3.1.0",\n  "paths": {}\n}\n```',
+    );
+  });
+
+  it("lists RSS items with links and dates", async () => {
+    const rss = `<?xml version="1.0"?>
+<rss version="2.0"><channel>
+  <title>Runtime News</title>
+  <lastBuildDate>Tue, 02 Apr 2024 10:00:00 GMT</lastBuildDate>
+  <item>
+    <title>Node 22 released</title>
+    <link>https://example.com/node-22</link>
+    <pubDate>Wed, 24 Apr 2024 12:00:00 GMT</pubDate>
+    <description><![CDATA[<p>Node 22 ships <b>require(esm)</b> &amp; more.</p>]]></description>
+  </item>
+  <item>
+    <title>Deno &amp; Bun roundup</title>
+    <link>https://example.com/roundup</link>
+    <pubDate>Mon, 01 Apr 2024 08:00:00 GMT</pubDate>
+  </item>
+</channel></rss>`;
+
+    const document = await extractDocument(
+      response(rss, "application/rss+xml"),
+    );
+
+    assert.equal(document.title, "Runtime News");
+    assert.equal(
+      document.markdown,
+      "# Runtime News\n\n" +
+        "## [Node 22 released](https://example.com/node-22)\n*2024-04-24*\n\n" +
+        "Node 22 ships require(esm) & more.\n\n" +
+        "## [Deno & Bun roundup](https://example.com/roundup)\n*2024-04-01*",
+    );
+    assert.equal(document.publishedAt, "2024-04-24T12:00:00.000Z");
+    assert.equal(document.modifiedAt, "2024-04-02T10:00:00.000Z");
+  });
+
+  it("lists Atom entries and sniffs untyped responses", async () => {
+    const atom = `<feed xmlns="http://www.w3.org/2005/Atom">
+  <title type="text">Release Notes</title>
+  <entry>
+    <title>v2.0</title>
+    <link rel="alternate" href="https://example.com/v2"/>
+    <updated>2024-05-01T00:00:00Z</updated>
+    <summary>Breaking changes.</summary>
+  </entry>
+</feed>`;
+
+    const document = await extractDocument(response(atom, ""));
+
+    assert.equal(document.title, "Release Notes");
+    assert.match(
+      document.markdown,
+      /## \[v2\.0\]\(https:\/\/example\.com\/v2\)/,
+    );
+    await assert.rejects(
+      extractDocument(response("<config/>", "application/xml")),
+      /not an RSS or Atom feed/,
+    );
+  });
+});
+
+describe("parsePdfDate", () => {
+  it("reads full and partial PDF dates", () => {
+    assert.equal(parsePdfDate("D:20231231235959Z"), "2023-12-31T23:59:59.000Z");
+    assert.equal(parsePdfDate("D:202403"), "2024-03-01T00:00:00.000Z");
+    assert.equal(parsePdfDate("yesterday"), undefined);
+  });
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fixturePath } from "../src/gemini/providers/fixture";
+import { FreshnessFilter } from "../src/utils/freshness";
+
+describe("fixturePath", () => {
+  it("keeps queries with the same slug apart", () => {
+    const cpp = fixturePath("fixtures", "search", "C++ vs C#");
+    const c = fixturePath("fixtures", "search", "c vs c");
+
+    assert.notEqual(cpp, c);
+    assert.match(cpp, /search\/c-vs-c-[0-9a-f]{12}\.json$/);
+  });
+
+  it("keeps long queries with the same prefix apart", () => {
+    const prefix = "how does the node.js event loop schedule ".repeat(3);
+
+    assert.notEqual(
+      fixturePath("fixtures", "search", `${prefix}timers`),
+      fixturePath("fixtures", "search", `${prefix}promises`),
+    );
+  });
+
+  it("matches freshness-steered searches on any day", () => {
+    const day = 24 * 60 * 60 * 1000;
+    const steer = (now: number) =>
+      new FreshnessFilter("week", now).steer("bun release notes");
+
+    assert.equal(
+      fixturePath("fixtures", "search", steer(Date.now())),
+      fixturePath("fixtures", "search", steer(Date.now() + 3 * day)),
+    );
+    assert.notEqual(
+      fixturePath("fixtures", "search", steer(Date.now())),
+      fixturePath("fixtures", "search", "bun release notes"),
+    );
+  });
+
+  it("tells domain-filtered searches apart by their operators", () => {
+    const query = "bun release notes";
+
+    assert.notEqual(
+      fixturePath(
+        "fixtures",
+        "search",
+        `${query}\n\nSearch only with these operators: site:bun.sh`,
+      ),
+      fixturePath("fixtures", "search", query),
+    );
+  });
+});
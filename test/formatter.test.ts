@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { GroundingMetadata } from "../src/types/gemini";
+import { extractSearchResults, insertCitations } from "../src/utils/formatter";
+
+describe("insertCitations", () => {
+  it("inserts markers at each segment end without shifting earlier indices", () => {
+    const text = "Node is fast. Deno is new.";
+    const result = insertCitations(text, [
+      { segment: { endIndex: 13 }, groundingChunkIndices: [0] },
+      { segment: { endIndex: 26 }, groundingChunkIndices: [1, 2] },
+    ]);
+
+    assert.equal(result, "Node is fast.[1] Deno is new.[2][3]");
+  });
+
+  it("uses the top-level endIndex from API key responses", () => {
+    const result = insertCitations("Alpha. Beta.", [
+      { endIndex: 6, groundingChunkIndices: [0] },
+    ]);
+
+    assert.equal(result, "Alpha.[1] Beta.");
+  });
+
+  it("inserts only one marker run per position", () => {
+    const result = insertCitations("Alpha.", [
+      { segment: { endIndex: 6 }, groundingChunkIndices: [0] },
+      { segment: { endIndex: 6 }, groundingChunkIndices: [1] },
+    ]);
+
+    assert.equal(result.match(/\[\d+\]/g)?.length, 1);
+  });
+
+  it("skips supports without a position or chunk indices", () => {
+    const result = insertCitations("Alpha.", [
+      { segment: {}, groundingChunkIndices: [0] },
+      { segment: { endIndex: 6 }, groundingChunkIndices: [] },
+    ]);
+
+    assert.equal(result, "Alpha.");
+  });
+});
+
+describe("extractSearchResults", () => {
+  const metadata: GroundingMetadata = {
+    groundingChunks: [
+      { web: { uri: "https://a.example/", title: "A" } },
+      { web: { uri: "https://b.example/", title: "B" } },
+      { web: { uri: "https://c.example/" } },
+    ],
+    groundingSupports: [
+      { segment: { text: "First" }, groundingChunkIndices: [0, 1] },
+      { segment: { text: "Second" }, groundingChunkIndices: [1, 2] },
+    ],
+  };
+
+  it("collects every supported chunk once, in order", () => {
+    assert.deepEqual(extractSearchResults(metadata), [
+      { title: "A", url: "https://a.example/", snippet: "First" },
+      { title: "B", url: "https://b.example/", snippet: "First" },
+      { title: "Untitled", url: "https://c.example/", snippet: "Second" },
+    ]);
+  });
+
+  it("honors maxResults", () => {
+    assert.equal(extractSearchResults(metadata, 2).length, 2);
+  });
+
+  it("returns nothing without grounding supports", () => {
+    assert.deepEqual(extractSearchResults(undefined), []);
+  });
+});
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { FreshnessFilter, sortByDate } from "../src/utils/freshness";
+
+const now = Date.parse("2024-06-15T12:00:00Z");
+
+describe("FreshnessFilter", () => {
+  it("turns a period into a range back from now", () => {
+    const filter = new FreshnessFilter("week", now);
+
+    assert.equal(filter.from, "2024-06-08");
+    assert.equal(filter.to, undefined);
+    assert.equal(filter.label, "past week");
+    assert.match(
+      filter.steer("node release"),
+      /^node release\n\n.*after:2024-06-08$/,
+    );
+  });
+
+  it("steers explicit ranges with after: and before:", () => {
+    const filter = new FreshnessFilter({
+      from: "2024-01-01",
+      to: "2024-03-31",
+    });
+
+    assert.match(filter.steer("q"), /after:2024-01-01 before:2024-03-31$/);
+    assert.equal(filter.label, "2024-01-01 to 2024-03-31");
+  });
+
+  it("flags pages dated outside the range", () => {
+    const filter = new FreshnessFilter({
+      from: "2024-01-01",
+      to: "2024-03-31",
+    });
+
+    assert.equal(filter.isStale({ publishedAt: "2023-05-01T00:00:00Z" }), true);
+    assert.equal(
+      filter.isStale({
+        publishedAt: "2023-05-01T00:00:00Z",
+        modifiedAt: "2024-02-01T00:00:00Z",
+      }),
+      false,
+    );
+    assert.equal(filter.isStale({ publishedAt: "2024-04-02T00:00:00Z" }), true);
+    assert.equal(filter.isStale({}), false);
+  });
+});
+
+describe("sortByDate", () => {
+  it("orders pages newest first with undated pages last", () => {
+    const page = (url: string, publishedAt?: string, modifiedAt?: string) => ({
+      url,
+      title: url,
+      content: "",
+      scrapedAt: "2024-06-15T00:00:00Z",
+      publishedAt,
+      modifiedAt,
+    });
+
+    const sorted = sortByDate([
+      page("undated"),
+      page("old", "2020-01-01T00:00:00Z"),
+      page("updated", "2019-01-01T00:00:00Z", "2024-05-01T00:00:00Z"),
+      page("recent", "2023-01-01T00:00:00Z"),
+    ]);
+
+    assert.deepEqual(
+      sorted.map((content) => content.url),
+      ["updated", "recent", "old", "undated"],
+    );
+  });
+});
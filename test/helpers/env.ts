@@ -0,0 +1,26 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+export function tempDir(prefix: string): string {
+  return mkdtempSync(join(tmpdir(), `gemini-grounding-${prefix}-`));
+}
+
+// Create a home directory containing ~/.gemini/oauth_creds.json
+export function createOAuthHome(token: {
+  access_token: string;
+  refresh_token?: string;
+  expiry_date: number;
+}): string {
+  const home = tempDir("home");
+  mkdirSync(join(home, ".gemini"));
+  writeFileSync(
+    join(home, ".gemini", "oauth_creds.json"),
+    JSON.stringify({
+      refresh_token: "test-refresh-token",
+      token_type: "Bearer",
+      ...token,
+    }),
+  );
+  return home;
+}
@@ -0,0 +1,232 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type { GeminiOAuthResponse } from "../../src/types/gemini";
+
+export interface FakeCodeAssistOptions {
+  // Project returned directly by loadCodeAssist; omit to force onboarding
+  projectId?: string;
+  onboardedProjectId?: string;
+  // Number of operation polls before onboarding reports done
+  pollsUntilDone?: number;
+  // Number of 429 responses generateContent returns before succeeding
+  rateLimitResponses?: number;
+  // Responses keyed by the last user turn's text
+  responses?: Record<string, GeminiOAuthResponse>;
+  defaultResponse?: GeminiOAuthResponse;
+  // Bearer token generateContent accepts; refreshes return refreshedToken
+  accessToken?: string;
+  refreshedToken?: string;
+}
+
+interface GenerateRequest {
+  contents: Array<{ parts: Array<{ text: string }> }>;
+}
+
+const VERTEX_GENERATE_PATH =
+  /^\/v1\/projects\/[^/]+\/locations\/[^/]+\/publishers\/google\/models\/[^/:]+:generateContent$/;
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+export interface FakeCodeAssist {
+  url: string;
+  requests: RecordedRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Local stand-in for the Code Assist API (v1internal:loadCodeAssist,
+ * onboardUser, operation polling, generateContent), the Vertex AI
+ * generateContent endpoint and the OAuth token endpoint (/token)
+ */
+export async function startFakeCodeAssist(
+  options: FakeCodeAssistOptions = {},
+): Promise<FakeCodeAssist> {
+  const requests: RecordedRequest[] = [];
+  const accessToken = options.accessToken ?? "test-access-token";
+  const refreshedToken = options.refreshedToken ?? "refreshed-access-token";
+  const validTokens = new Set([accessToken]);
+  let polls = 0;
+  let rateLimited = 0;
+
+  const server = createServer(async (req, res) => {
+    const body = await readBody(req);
+    const url = new URL(req.url || "/", "http://localhost");
+    requests.push({
+      method: req.method || "GET",
+      path: url.pathname,
+      headers: req.headers,
+      body,
+    });
+
+    if (url.pathname === "/token" && req.method === "POST") {
+      const params = new URLSearchParams(body);
+      if (params.get("grant_type") !== "refresh_token") {
+        return sendJson(res, 400, { error: "unsupported_grant_type" });
+      }
+      validTokens.add(refreshedToken);
+      return sendJson(res, 200, {
+        access_token: refreshedToken,
+        expires_in: 3600,
+        token_type: "Bearer",
+      });
+    }
+
+    const token = (req.headers.authorization || "").replace(/^Bearer /, "");
+    if (!validTokens.has(token)) {
+      return sendJson(res, 401, {
+        error: { code: 401, status: "UNAUTHENTICATED" },
+      });
+    }
+
+    switch (url.pathname) {
+      case "/v1internal:loadCodeAssist":
+        if (options.projectId) {
+          return sendJson(res, 200, {
+            cloudaicompanionProject: options.projectId,
+          });
+        }
+        return sendJson(res, 200, {
+          allowedTiers: [
+            { id: "legacy-tier", name: "Legacy" },
+            { id: "free-tier", name: "Free", isDefault: true },
+          ],
+        });
+
+      case "/v1internal:onboardUser": {
+        const pollsUntilDone = options.pollsUntilDone ?? 1;
+        return sendJson(res, 200, {
+          operation: operationState(pollsUntilDone === 0),
+        });
+      }
+
+      case "/operations/onboard-1":
+        polls++;
+        return sendJson(
+          res,
+          200,
+          operationState(polls >= (options.pollsUntilDone ?? 1)),
+        );
+
+      case "/v1internal:generateContent": {
+        const request = JSON.parse(body) as { request: GenerateRequest };
+        // Code Assist wraps the Gemini response in a 'response' field
+        return generate(res, request.request, (response) => ({ response }));
+      }
+
+      default:
+        // Vertex AI: /v1/projects/<project>/locations/<location>/publishers/google/models/<model>:generateContent
+        if (VERTEX_GENERATE_PATH.test(url.pathname)) {
+          return generate(res, JSON.parse(body) as GenerateRequest, (r) => r);
+        }
+        return sendJson(res, 404, { error: "Not Found" });
+    }
+  });
+
+  function generate(
+    res: ServerResponse,
+    request: GenerateRequest,
+    wrap: (response: GeminiOAuthResponse) => unknown,
+  ) {
+    if (rateLimited < (options.rateLimitResponses ?? 0)) {
+      rateLimited++;
+      return sendJson(res, 429, {
+        error: {
+          code: 429,
+          message: "Resource has been exhausted (e.g. check quota).",
+          status: "RESOURCE_EXHAUSTED",
+        },
+      });
+    }
+
+    // Follow-up requests carry earlier turns; the query is the last one
+    const { contents } = request;
+    const query = contents[contents.length - 1]?.parts[0]?.text ?? "";
+    const response = options.responses?.[query] ?? options.defaultResponse;
+    if (!response) {
+      return sendJson(res, 500, { error: `No fake response for ${query}` });
+    }
+    return sendJson(res, 200, wrap(response));
+  }
+
+  function operationState(done: boolean) {
+    return {
+      name: "operations/onboard-1",
+      done,
+      response: done
+        ? {
+            cloudaicompanionProject: {
+              id: options.onboardedProjectId ?? "onboarded-project",
+            },
+          }
+        : undefined,
+    };
+  }
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * Build a grounded Gemini response whose sentences are each supported by
+ * the given sources
+ */
+export function groundedResponse(
+  sentences: Array<{ text: string; sources: number[] }>,
+  chunks: Array<{ uri: string; title: string }>,
+): GeminiOAuthResponse {
+  let text = "";
+  const groundingSupports = sentences.map((sentence) => {
+    const startIndex = text.length;
+    text += sentence.text;
+    const endIndex = text.length;
+    text += " ";
+    return {
+      segment: { startIndex, endIndex, text: sentence.text },
+      groundingChunkIndices: sentence.sources,
+    };
+  });
+
+  return {
+    candidates: [
+      {
+        content: { parts: [{ text: text.trim() }] },
+        groundingMetadata: {
+          groundingChunks: chunks.map((chunk) => ({ web: chunk })),
+          groundingSupports,
+        },
+      },
+    ],
+  };
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,130 @@
+import { createServer, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface FakePage {
+  status?: number;
+  body?: string;
+  contentType?: string;
+  redirect?: string; // Location for a 302 response
+  failTimes?: number; // Respond with 500 this many times before succeeding
+  delay?: number; // Milliseconds before responding
+}
+
+export interface FakeSites {
+  url: string;
+  host: string;
+  hits: Map<string, number>;
+  aborted: Set<string>; // Paths whose client hung up before the response
+  close: () => Promise<void>;
+}
+
+/**
+ * Serve static pages for the scraper and redirect resolver. Unknown paths
+ * return 404.
+ */
+export async function startFakeSites(
+  pages: Record<string, FakePage>,
+): Promise<FakeSites> {
+  const hits = new Map<string, number>();
+  const aborted = new Set<string>();
+
+  const server = createServer((req, res) => {
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+    const count = (hits.get(path) ?? 0) + 1;
+    hits.set(path, count);
+
+    const page = pages[path];
+    if (!page) {
+      res.writeHead(404).end("Not Found");
+      return;
+    }
+
+    if (page.delay) {
+      const timer = setTimeout(() => respond(page, count, res), page.delay);
+      res.on("close", () => {
+        clearTimeout(timer);
+        if (!res.writableEnded) {
+          aborted.add(path);
+        }
+      });
+      return;
+    }
+    respond(page, count, res);
+  });
+
+  function respond(page: FakePage, count: number, res: ServerResponse): void {
+    if (page.failTimes && count <= page.failTimes) {
+      res.writeHead(500).end("Internal Server Error");
+      return;
+    }
+
+    if (page.redirect) {
+      res.writeHead(302, { Location: page.redirect }).end();
+      return;
+    }
+
+    res.writeHead(page.status ?? 200, {
+      "Content-Type": page.contentType ?? "text/html; charset=utf-8",
+    });
+    res.end(page.body ?? "");
+  }
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    host: `127.0.0.1:${port}`,
+    hits,
+    aborted,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+}
+
+// A readable article long enough for readability's character threshold
+export function articleHtml(title: string, paragraphs: string[]): string {
+  return `<!DOCTYPE html>
+<html>
+  <head><title>${title}</title></head>
+  <body>
+    <nav><a href="/">Home</a></nav>
+    <article>
+      <h1>${title}</h1>
+      ${paragraphs.map((paragraph) => `<p>${paragraph}</p>`).join("\n      ")}
+    </article>
+  </body>
+</html>`;
+}
+
+// A one-page PDF showing the lines in Helvetica, with an optional info
+// dictionary (e.g. "/Title (Spec) /CreationDate (D:20240101000000Z)")
+export function pdfDocument(lines: string[], info = ""): string {
+  const content = `BT /F1 12 Tf 72 720 Td 14 TL ${lines.map((line) => `(${line}) Tj T*`).join(" ")} ET`;
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+    `<< ${info} >>`,
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n`;
+  pdf += `startxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
@@ -0,0 +1,352 @@
+import assert from "node:assert/strict";
+import { request } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { GeminiClient } from "../src/gemini/client";
+import { createServer } from "../src/server";
+import {
+  type HttpServerHandle,
+  type HttpTransportOptions,
+  startHttpServer,
+} from "../src/transports/http";
+import type { ConversationTurn } from "../src/types/gemini";
+
+before(() => {
+  process.env.CACHE_ENABLED = "false";
+  process.env.BACKEND_RATE_LIMIT = "1000";
+  process.env.BACKEND_BURST = "1000";
+});
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+interface TestServer {
+  handle: HttpServerHandle;
+  url: string;
+  histories: ConversationTurn[][];
+}
+
+// HTTP server whose Gemini backend answers every query and records the
+// follow-up history it was sent
+async function startServer(
+  options: Partial<
+    Pick<
+      HttpTransportOptions,
+      "authToken" | "sessionIdleTimeout" | "allowedHosts" | "allowedOrigins"
+    >
+  > = {},
+): Promise<TestServer> {
+  const histories: ConversationTurn[][] = [];
+  const geminiClient = new GeminiClient({
+    name: "stub",
+    search: async (query, _model, searchOptions) => {
+      histories.push(searchOptions?.history ?? []);
+      return {
+        candidates: [{ content: { parts: [{ text: `Answer to ${query}` }] } }],
+      };
+    },
+    generate: async () => ({ candidates: [] }),
+  });
+  const handle = await startHttpServer(() => createServer(geminiClient), {
+    host: "127.0.0.1",
+    port: 0,
+    ...options,
+    sessionIdleTimeout: options.sessionIdleTimeout ?? 60000,
+  });
+  const { port } = handle.httpServer.address() as AddressInfo;
+  return { handle, url: `http://127.0.0.1:${port}`, histories };
+}
+
+async function connect(
+  url: string,
+  headers: Record<string, string> = {},
+): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+  const transport = new StreamableHTTPClientTransport(new URL(`${url}/mcp`), {
+    requestInit: { headers },
+  });
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(transport);
+  return { client, transport };
+}
+
+function post(
+  url: string,
+  body: string,
+  headers: Record<string, string> = {},
+): Promise<Response> {
+  return fetch(`${url}/mcp`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...headers,
+    },
+    body,
+  });
+}
+
+describe("HTTP transport authentication", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer({ authToken: "secret-token" });
+  });
+
+  after(() => server.handle.close());
+
+  it("rejects requests without a bearer token", async () => {
+    const response = await post(server.url, JSON.stringify(INITIALIZE));
+
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get("www-authenticate") ?? "", /^Bearer/);
+  });
+
+  it("rejects a wrong bearer token", async () => {
+    const response = await post(server.url, JSON.stringify(INITIALIZE), {
+      Authorization: "Bearer wrong-token",
+    });
+
+    assert.equal(response.status, 401);
+  });
+
+  it("accepts the configured bearer token", async () => {
+    const { client } = await connect(server.url, {
+      Authorization: "Bearer secret-token",
+    });
+
+    const { tools } = await client.listTools();
+
+    assert.ok(tools.some((tool) => tool.name === "google_search"));
+    await client.close();
+  });
+});
+
+// Status of a POST sent with a Host header fetch() won't let us set
+function postWithHost(url: string, host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      `${url}/mcp`,
+      {
+        method: "POST",
+        headers: {
+          Host: host,
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+        },
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      },
+    );
+    req.on("error", reject);
+    req.end(JSON.stringify(INITIALIZE));
+  });
+}
+
+describe("HTTP transport Host and Origin checks", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer({
+      allowedHosts: ["mcp.internal"],
+      allowedOrigins: ["https://app.example"],
+    });
+  });
+
+  after(() => server.handle.close());
+
+  it("rejects a Host that isn't loopback or allowed", async () => {
+    assert.equal(await postWithHost(server.url, "attacker.example"), 403);
+    assert.equal(await postWithHost(server.url, "mcp.internal:3000"), 200);
+    assert.equal(await postWithHost(server.url, "localhost:3000"), 200);
+  });
+
+  it("rejects browser origins that aren't loopback or allowed", async () => {
+    const body = JSON.stringify(INITIALIZE);
+
+    const foreign = await post(server.url, body, {
+      Origin: "https://attacker.example",
+    });
+    const opaque = await post(server.url, body, { Origin: "null" });
+    const allowed = await post(server.url, body, {
+      Origin: "https://app.example",
+    });
+    const local = await post(server.url, body, {
+      Origin: "http://localhost:5173",
+    });
+
+    assert.equal(foreign.status, 403);
+    assert.equal(opaque.status, 403);
+    assert.equal(allowed.status, 200);
+    assert.equal(local.status, 200);
+  });
+});
+
+describe("HTTP transport sessions", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(() => server.handle.close());
+
+  it("reuses a session through mcp-session-id until it is deleted", async () => {
+    const { client, transport } = await connect(server.url);
+    const sessionId = transport.sessionId;
+    assert.ok(sessionId);
+
+    // Requests after initialize carry the session ID and reach the same server
+    await client.listTools();
+    await client.listTools();
+
+    await transport.terminateSession();
+    const response = await post(
+      server.url,
+      JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+      { "mcp-session-id": sessionId },
+    );
+    assert.equal(response.status, 404);
+    await client.close();
+  });
+
+  it("answers an unknown session ID with 404", async () => {
+    const response = await post(
+      server.url,
+      JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+      { "mcp-session-id": "not-a-session" },
+    );
+
+    assert.equal(response.status, 404);
+  });
+
+  it("requires initialize to start a session", async () => {
+    const response = await post(
+      server.url,
+      JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    );
+
+    assert.equal(response.status, 400);
+  });
+
+  it("rejects bodies over 4 MB", async () => {
+    const response = await post(server.url, "x".repeat(4 * 1024 * 1024 + 1));
+
+    assert.equal(response.status, 413);
+  });
+
+  it("keeps follow-up sessions of different clients apart", async () => {
+    const first = await connect(server.url);
+    const second = await connect(server.url);
+    const search = (client: Client, query: string) =>
+      client.callTool({
+        name: "google_search",
+        arguments: { query, sessionId: "shared" },
+      });
+
+    await search(first.client, "first question");
+    await search(second.client, "other question");
+    await search(first.client, "follow-up");
+
+    const histories = server.histories.slice(-3);
+    assert.deepEqual(histories[1], []);
+    assert.deepEqual(
+      histories[2].map((turn) => turn.text),
+      ["first question", "Answer to first question"],
+    );
+    await first.client.close();
+    await second.client.close();
+  });
+});
+
+describe("HTTP transport idle sessions", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer({ sessionIdleTimeout: 50 });
+  });
+
+  after(() => server.handle.close());
+
+  it("closes sessions that stay idle past the timeout", async () => {
+    const { client, transport } = await connect(server.url);
+    const sessionId = transport.sessionId ?? "";
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const response = await post(
+      server.url,
+      JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+      { "mcp-session-id": sessionId },
+    );
+
+    assert.equal(response.status, 404);
+    await client.close();
+  });
+});
+
+describe("HTTP transport legacy SSE", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(() => server.handle.close());
+
+  it("pairs the /sse stream with its /messages posts", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(new SSEClientTransport(new URL(`${server.url}/sse`)));
+
+    const { tools } = await client.listTools();
+
+    assert.ok(tools.some((tool) => tool.name === "scrape_url"));
+    await client.close();
+  });
+
+  it("answers /mcp requests carrying an SSE session ID with 404", async () => {
+    // Open the stream by hand to read the session ID from its endpoint event
+    const controller = new AbortController();
+    const stream = await fetch(`${server.url}/sse`, {
+      signal: controller.signal,
+    });
+    const reader = (stream.body as ReadableStream<Uint8Array>).getReader();
+    let events = "";
+    let match: RegExpMatchArray | null = null;
+    while (!match) {
+      const { value } = await reader.read();
+      events += new TextDecoder().decode(value);
+      match = events.match(/sessionId=([\w-]+)/);
+    }
+
+    const response = await post(
+      server.url,
+      JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+      { "mcp-session-id": match[1] },
+    );
+
+    assert.equal(response.status, 404);
+    controller.abort();
+  });
+
+  it("rejects messages for an unknown SSE session", async () => {
+    const response = await fetch(`${server.url}/messages?sessionId=unknown`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    assert.equal(response.status, 404);
+  });
+});
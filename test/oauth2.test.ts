@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { OAuth2Client } from "../src/auth/oauth2";
+import { createOAuthHome } from "./helpers/env";
+import {
+  type FakeCodeAssist,
+  startFakeCodeAssist,
+} from "./helpers/fake-code-assist";
+
+describe("OAuth2Client.getValidToken", () => {
+  let fake: FakeCodeAssist;
+
+  before(async () => {
+    fake = await startFakeCodeAssist();
+  });
+
+  after(() => fake.close());
+
+  it("returns a token that has not expired", async () => {
+    process.env.HOME = createOAuthHome({
+      access_token: "still-valid",
+      expiry_date: Date.now() + 3600_000,
+    });
+
+    const client = new OAuth2Client({ tokenEndpoint: `${fake.url}/token` });
+
+    assert.equal(await client.getValidToken(), "still-valid");
+  });
+
+  it("refreshes an expired token and saves it", async () => {
+    const home = createOAuthHome({
+      access_token: "expired",
+      expiry_date: Date.now() - 1000,
+    });
+    process.env.HOME = home;
+
+    const client = new OAuth2Client({ tokenEndpoint: `${fake.url}/token` });
+
+    assert.equal(await client.getValidToken(), "refreshed-access-token");
+    const saved = JSON.parse(
+      readFileSync(join(home, ".gemini", "oauth_creds.json"), "utf-8"),
+    );
+    assert.equal(saved.access_token, "refreshed-access-token");
+    assert.equal(saved.refresh_token, "test-refresh-token");
+    assert.ok(saved.expiry_date > Date.now());
+  });
+
+  it("asks to re-authenticate when the refresh fails", async () => {
+    process.env.HOME = createOAuthHome({
+      access_token: "expired",
+      expiry_date: Date.now() - 1000,
+    });
+
+    const client = new OAuth2Client({
+      tokenEndpoint: `${fake.url}/missing-token-endpoint`,
+    });
+
+    await assert.rejects(client.getValidToken(), /re-authenticate/);
+  });
+});
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractPageDates } from "../src/utils/page-dates";
+
+describe("extractPageDates", () => {
+  it("reads JSON-LD dates, including @graph nodes", () => {
+    const html = `<html><head>
+      <script type="application/ld+json">
+        {"@context": "https://schema.org", "@graph": [
+          {"@type": "WebSite", "name": "Example"},
+          {"@type": "Article", "datePublished": "2024-03-01T08:00:00Z",
+           "dateModified": "2024-04-15T10:30:00+02:00"}
+        ]}
+      </script>
+      <meta property="article:published_time" content="2020-01-01">
+    </head><body></body></html>`;
+
+    assert.deepEqual(extractPageDates(html), {
+      publishedAt: "2024-03-01T08:00:00.000Z",
+      modifiedAt: "2024-04-15T08:30:00.000Z",
+    });
+  });
+
+  it("falls back to <meta> tags in any attribute order", () => {
+    const html = `<head>
+      <script type="application/ld+json">{not json</script>
+      <meta content="2023-11-20T12:00:00Z" property="article:published_time" />
+      <meta name='og:updated_time' content='2024-01-05T00:00:00Z'>
+      <meta itemprop="datePublished" content="2019-01-01">
+    </head>`;
+
+    assert.deepEqual(extractPageDates(html), {
+      publishedAt: "2023-11-20T12:00:00.000Z",
+      modifiedAt: "2024-01-05T00:00:00.000Z",
+    });
+  });
+
+  it("uses readability metadata last and skips unparseable dates", () => {
+    const html = '<meta name="date" content="sometime last spring">';
+
+    assert.deepEqual(extractPageDates(html, { publishedTime: "2022-06-30" }), {
+      publishedAt: "2022-06-30T00:00:00.000Z",
+    });
+    assert.deepEqual(extractPageDates("<p>No dates</p>"), {});
+  });
+});
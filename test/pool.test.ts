@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { AuthConfig } from "../src/auth/config";
+import { CodeAssistProvider } from "../src/gemini/providers/code-assist";
+import { CredentialPool } from "../src/gemini/providers/pool";
+import type { SearchProvider } from "../src/gemini/providers/types";
+import type { GeminiOAuthResponse } from "../src/types/gemini";
+import { createOAuthHome } from "./helpers/env";
+import {
+  type FakeCodeAssist,
+  startFakeCodeAssist,
+} from "./helpers/fake-code-assist";
+
+const response: GeminiOAuthResponse = {
+  candidates: [{ content: { parts: [{ text: "Hello" }] } }],
+};
+
+// Provider that fails with a quota error for the first `quotaErrors` calls
+function stubProvider(quotaErrors = 0, error?: Error) {
+  const calls: string[] = [];
+  const provider: SearchProvider = {
+    name: "stub",
+    search: async (query) => {
+      calls.push(query);
+      if (error) {
+        throw error;
+      }
+      if (calls.length <= quotaErrors) {
+        throw new Error("[429 Too Many Requests] RESOURCE_EXHAUSTED");
+      }
+      return response;
+    },
+    generate: async () => response,
+  };
+  return { provider, calls };
+}
+
+describe("CredentialPool", () => {
+  it("sticks to the first credential while it has quota", async () => {
+    const first = stubProvider();
+    const second = stubProvider();
+    const pool = new CredentialPool([
+      { label: "a", provider: first.provider },
+      { label: "b", provider: second.provider },
+    ]);
+
+    await pool.search("q1", "model");
+    const result = await pool.search("q2", "model");
+
+    assert.equal(result.credential, "a");
+    assert.deepEqual(first.calls, ["q1", "q2"]);
+    assert.deepEqual(second.calls, []);
+  });
+
+  it("rotates to the next credential on a quota error and cools the first down", async () => {
+    const first = stubProvider(1);
+    const second = stubProvider();
+    const pool = new CredentialPool(
+      [
+        { label: "a", provider: first.provider },
+        { label: "b", provider: second.provider },
+      ],
+      { cooldown: 60000 },
+    );
+
+    assert.equal((await pool.search("q1", "model")).credential, "b");
+    assert.equal((await pool.search("q2", "model")).credential, "b");
+    assert.deepEqual(first.calls, ["q1"]);
+  });
+
+  it("uses a credential again after its cooldown", async () => {
+    const first = stubProvider(1);
+    const second = stubProvider(1);
+    const pool = new CredentialPool(
+      [
+        { label: "a", provider: first.provider },
+        { label: "b", provider: second.provider },
+      ],
+      { cooldown: 20 },
+    );
+
+    await assert.rejects(pool.search("q1", "model"), /All 2 credentials/);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    assert.equal((await pool.search("q2", "model")).credential, "b");
+  });
+
+  it("fails with a 429 when every credential is cooling down", async () => {
+    const pool = new CredentialPool(
+      [{ label: "a", provider: stubProvider(10).provider }],
+      { cooldown: 60000 },
+    );
+
+    await assert.rejects(pool.search("q1", "model"), /429/);
+    await assert.rejects(
+      pool.search("q2", "model"),
+      /All 1 credentials are rate limited \(next available in \d+ seconds\)/,
+    );
+  });
+
+  it("does not rotate on other errors", async () => {
+    const second = stubProvider();
+    const pool = new CredentialPool([
+      {
+        label: "a",
+        provider: stubProvider(0, new Error("400 Bad Request")).provider,
+      },
+      { label: "b", provider: second.provider },
+    ]);
+
+    await assert.rejects(pool.search("q", "model"), /400 Bad Request/);
+    assert.deepEqual(second.calls, []);
+  });
+});
+
+describe("CredentialPool with Code Assist credentials", () => {
+  let fake: FakeCodeAssist;
+
+  before(async () => {
+    fake = await startFakeCodeAssist({
+      projectId: "existing-project",
+      rateLimitResponses: 1,
+      defaultResponse: response,
+    });
+    process.env.CODE_ASSIST_ENDPOINT = fake.url;
+  });
+
+  after(async () => {
+    delete process.env.CODE_ASSIST_ENDPOINT;
+    await fake.close();
+  });
+
+  it("serves the request from the second OAuth file after a 429", async () => {
+    const credentials = ["work", "personal"].map((name) => {
+      const path = join(
+        createOAuthHome({
+          access_token: "test-access-token",
+          expiry_date: Date.now() + 3600_000,
+        }),
+        ".gemini",
+        "oauth_creds.json",
+      );
+      return {
+        label: name,
+        provider: new CodeAssistProvider(
+          new AuthConfig({ oauthCredentialsPath: path }),
+          { maxRetries: 0 },
+        ),
+      };
+    });
+    const pool = new CredentialPool(credentials, { cooldown: 60000 });
+
+    const result = await pool.search("q", "gemini-2.5-flash");
+
+    assert.equal(result.credential, "personal");
+    assert.equal(
+      fake.requests.filter(
+        (request) => request.path === "/v1internal:generateContent",
+      ).length,
+      2,
+    );
+  });
+});
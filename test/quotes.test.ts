@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { locateQuotes, splitQuotes } from "../src/utils/quotes";
+
+describe("splitQuotes", () => {
+  it("separates the summary from the quoted passages", () => {
+    assert.deepEqual(
+      splitQuotes(
+        'The page explains streams.\n\n**QUOTES:**\n- "Streams are sequences of chunks."\n- Backpressure slows the producer.\n',
+      ),
+      {
+        summary: "The page explains streams.",
+        quotes: [
+          "Streams are sequences of chunks.",
+          "Backpressure slows the producer.",
+        ],
+      },
+    );
+  });
+
+  it("treats a response without quotes as all summary", () => {
+    assert.deepEqual(splitQuotes(" Just a summary. "), {
+      summary: "Just a summary.",
+      quotes: [],
+    });
+  });
+});
+
+describe("locateQuotes", () => {
+  const source = [
+    "# Streams",
+    "",
+    "Streams are sequences of chunks.",
+    "",
+    "## Backpressure",
+    "",
+    "When the consumer is slow,",
+    "backpressure slows the producer.",
+  ].join("\n");
+
+  it("returns verbatim passages with their position", () => {
+    const [quote] = locateQuotes(source, [
+      "When the consumer is slow, backpressure slows the producer.",
+    ]);
+
+    assert.equal(
+      quote.text,
+      "When the consumer is slow,\nbackpressure slows the producer.",
+    );
+    assert.equal(quote.offset, source.indexOf("When the consumer"));
+    assert.equal(quote.line, 7);
+    assert.equal(quote.section, "Backpressure");
+  });
+
+  it("drops passages that aren't in the source and duplicates", () => {
+    const quotes = locateQuotes(source, [
+      "Streams are made of chunks.",
+      "Streams are sequences of chunks.",
+      "Streams are sequences of chunks.",
+    ]);
+
+    assert.deepEqual(quotes, [
+      {
+        text: "Streams are sequences of chunks.",
+        offset: 11,
+        line: 3,
+        section: "Streams",
+      },
+    ]);
+  });
+
+  it("stops at the limit", () => {
+    const quotes = locateQuotes(
+      source,
+      ["Streams are sequences", "backpressure slows"],
+      1,
+    );
+
+    assert.equal(quotes.length, 1);
+  });
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mergeBibliography, splitSynthesis } from "../src/utils/report";
+
+describe("mergeBibliography", () => {
+  it("numbers sources once across queries and renumbers each result", () => {
+    const { results, sources } = mergeBibliography([
+      {
+        query: "bun",
+        summary: "Bun is fast.[1] It bundles code.[2]",
+        citations: [
+          { number: 1, title: "Bun", url: "https://bun.sh/" },
+          { number: 2, title: "Bench", url: "https://bench.example/" },
+        ],
+      },
+      { query: "broken", error: "429" },
+      {
+        query: "deno",
+        summary: "Deno is secure.[1] Both are fast.[2][3]",
+        citations: [
+          { number: 1, title: "Deno", url: "https://deno.com/" },
+          { number: 2, title: "Bench", url: "https://bench.example/" },
+          { number: 3, title: "Bench again", url: "https://bench.example/" },
+        ],
+      },
+    ]);
+
+    assert.deepEqual(
+      sources.map((source) => [source.number, source.url, source.queries]),
+      [
+        [1, "https://bun.sh/", ["bun"]],
+        [2, "https://bench.example/", ["bun", "deno"]],
+        [3, "https://deno.com/", ["deno"]],
+      ],
+    );
+    assert.equal(results[0].summary, "Bun is fast.[1] It bundles code.[2]");
+    assert.equal(results[1].error, "429");
+    assert.equal(results[2].summary, "Deno is secure.[3] Both are fast.[2]");
+    assert.deepEqual(
+      results[2].citations?.map((citation) => citation.number),
+      [3, 2],
+    );
+  });
+});
+
+describe("splitSynthesis", () => {
+  it("separates the contradictions and drops unknown markers", () => {
+    const { report, contradictions } = splitSynthesis(
+      "## Runtimes\n\nBun is fast.[1] Deno is secure.[3][9]\n\nCONTRADICTIONS:\n- [1] says Bun is fastest, [2] says Deno is.[7]\n",
+      3,
+    );
+
+    assert.equal(report, "## Runtimes\n\nBun is fast.[1] Deno is secure.[3]");
+    assert.deepEqual(contradictions, [
+      "[1] says Bun is fastest, [2] says Deno is.",
+    ]);
+  });
+
+  it("reports no contradictions when the answers agree", () => {
+    assert.deepEqual(
+      splitSynthesis("Report.[1]\n\nCONTRADICTIONS:\n- None", 1).contradictions,
+      [],
+    );
+    assert.deepEqual(splitSynthesis("Report only.", 1).contradictions, []);
+  });
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ScrapedContent } from "../src/types/index";
+import { parseQueries, researchNotes } from "../src/utils/research";
+
+function page(url: string, title: string, content: string): ScrapedContent {
+  return { url, title, content, scrapedAt: "2026-01-01T00:00:00.000Z" };
+}
+
+describe("parseQueries", () => {
+  it("reads list items and drops queries already run", () => {
+    assert.deepEqual(
+      parseQueries(
+        '- bun performance\n2. "Deno security model"\n* Bun performance\n- node history',
+        5,
+        ["node history"],
+      ),
+      ["bun performance", "Deno security model"],
+    );
+  });
+
+  it("returns nothing when the model answers NONE", () => {
+    assert.deepEqual(parseQueries("NONE", 5), []);
+  });
+
+  it("keeps at most the limit", () => {
+    assert.deepEqual(parseQueries("- a\n- b\n- c", 2), ["a", "b"]);
+  });
+});
+
+describe("researchNotes", () => {
+  it("labels each source's first scraped page with its number", () => {
+    const notes = researchNotes(
+      [
+        {
+          query: "bun",
+          scrapedContent: [
+            page("https://deno.com/", "Deno", "Deno notes"),
+            page("https://bun.sh/", "Bun", "Bun notes"),
+            page("https://other.example/", "Other", "x"),
+          ],
+        },
+        {
+          query: "deno",
+          scrapedContent: [page("https://deno.com/", "Deno", "Later")],
+        },
+      ],
+      [
+        { number: 1, title: "Bun", url: "https://bun.sh/", queries: ["bun"] },
+        {
+          number: 2,
+          title: "Deno",
+          url: "https://deno.com/",
+          queries: ["bun"],
+        },
+      ],
+    );
+
+    assert.equal(notes, "[1] Bun: Bun notes\n\n[2] Deno: Deno notes");
+  });
+});
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { isAllowed, parseRobotsTxt, RobotsChecker } from "../src/utils/robots";
+import { type FakeSites, startFakeSites } from "./helpers/fake-sites";
+
+describe("parseRobotsTxt", () => {
+  it("uses the groups naming our user agent over the * groups", () => {
+    const rules = parseRobotsTxt(`
+User-agent: *
+Disallow: /
+
+# Our crawler may read the docs
+User-agent: OtherBot
+User-agent: GeminiGroundingMCP
+Disallow: /docs/drafts/
+Allow: /docs/
+Crawl-delay: 2
+`);
+
+    assert.equal(rules.crawlDelay, 2000);
+    assert.equal(isAllowed(rules, "/docs/intro"), true);
+    assert.equal(isAllowed(rules, "/docs/drafts/next"), false);
+    assert.equal(isAllowed(rules, "/blog"), true);
+  });
+
+  it("picks the longest match, Allow on ties, with * and $ patterns", () => {
+    const rules = parseRobotsTxt(`
+User-agent: *
+Disallow: /*.pdf$
+Disallow: /search
+Allow: /search/about
+Disallow: /page
+Allow: /page
+Disallow:
+`);
+
+    assert.equal(isAllowed(rules, "/files/report.pdf"), false);
+    assert.equal(isAllowed(rules, "/files/report.pdf?download=1"), true);
+    assert.equal(isAllowed(rules, "/search?q=node"), false);
+    assert.equal(isAllowed(rules, "/search/about"), true);
+    assert.equal(isAllowed(rules, "/page"), true);
+    assert.equal(isAllowed(rules, "/robots.txt"), true);
+  });
+});
+
+describe("RobotsChecker", () => {
+  let sites: FakeSites;
+  let broken: FakeSites;
+  let limited: FakeSites;
+
+  before(async () => {
+    process.env.HOST_MIN_DELAY = "0";
+    process.env.SCRAPE_ALLOW_PRIVATE_HOSTS = "127.0.0.1";
+    sites = await startFakeSites({
+      "/robots.txt": {
+        body: "User-agent: *\nDisallow: /admin\n",
+        contentType: "text/plain",
+      },
+    });
+    broken = await startFakeSites({
+      "/robots.txt": { status: 503, body: "Service Unavailable" },
+    });
+    limited = await startFakeSites({
+      "/robots.txt": { status: 429, body: "Too Many Requests" },
+    });
+  });
+
+  after(async () => {
+    delete process.env.ROBOTS_IGNORE_HOSTS;
+    await sites.close();
+    await broken.close();
+    await limited.close();
+  });
+
+  it("fetches robots.txt once per site and applies it", async () => {
+    const checker = new RobotsChecker();
+
+    const [admin, home] = await Promise.all([
+      checker.check(`${sites.url}/admin/users`),
+      checker.check(`${sites.url}/`),
+    ]);
+
+    assert.equal(admin.allowed, false);
+    assert.equal(home.allowed, true);
+    assert.equal(sites.hits.get("/robots.txt"), 1);
+  });
+
+  it("treats sites whose robots.txt fails as disallowed", async () => {
+    const checker = new RobotsChecker();
+
+    const decision = await checker.check(`${broken.url}/page`);
+
+    assert.equal(decision.allowed, false);
+    assert.equal(decision.unavailable, "HTTP 503");
+  });
+
+  it("treats a rate limited robots.txt as unavailable, not missing", async () => {
+    const checker = new RobotsChecker();
+
+    const decision = await checker.check(`${limited.url}/page`);
+
+    assert.equal(decision.allowed, false);
+    assert.equal(decision.unavailable, "HTTP 429");
+  });
+
+  it("skips hosts listed in ROBOTS_IGNORE_HOSTS", async () => {
+    process.env.ROBOTS_IGNORE_HOSTS = "127.0.0.1";
+    const checker = new RobotsChecker();
+    broken.hits.clear();
+
+    const decision = await checker.check(`${broken.url}/page`);
+
+    assert.equal(decision.allowed, true);
+    assert.equal(broken.hits.get("/robots.txt"), undefined);
+  });
+});
@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import {
+  isPrivateAddress,
+  SafeFetcher,
+  UnsafeFetchError,
+} from "../src/utils/safe-fetch";
+import { type FakeSites, startFakeSites } from "./helpers/fake-sites";
+
+function rejectsWith(kind: string, pattern: RegExp) {
+  return (error: unknown) =>
+    error instanceof UnsafeFetchError &&
+    error.kind === kind &&
+    pattern.test(error.message);
+}
+
+describe("isPrivateAddress", () => {
+  it("covers loopback, private, link-local, mapped and 6to4 addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+      "::ffff:a9fe:a9fe",
+      "2002:a9fe:a9fe::1",
+      "2002:7f00::1",
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+    for (const address of ["8.8.8.8", "172.32.0.1", "2606:4700::1111"]) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+});
+
+describe("SafeFetcher", () => {
+  let sites: FakeSites;
+
+  before(async () => {
+    sites = await startFakeSites({
+      "/page": { body: "<p>Hello</p>" },
+      "/internal": { body: "<p>Internal</p>" },
+      "/metadata": { redirect: "http://169.254.169.254/latest/meta-data/" },
+      "/loop": { redirect: "/loop" },
+      "/large": { body: "x".repeat(2048) },
+      "/archive.zip": { body: "PK", contentType: "application/zip" },
+    });
+  });
+
+  after(() => {
+    delete process.env.SCRAPE_ALLOW_PRIVATE_HOSTS;
+    delete process.env.SCRAPE_MAX_BYTES;
+    return sites.close();
+  });
+
+  it("blocks private hosts and other schemes unless allowed", async () => {
+    const fetcher = new SafeFetcher();
+
+    await assert.rejects(
+      fetcher.fetch("http://localhost:1/"),
+      rejectsWith(
+        "unsafe-url",
+        /localhost resolves to the private or link-local address/,
+      ),
+    );
+    await assert.rejects(
+      fetcher.fetch(`${sites.url}/page`),
+      rejectsWith("unsafe-url", /private or link-local address 127\.0\.0\.1/),
+    );
+    await assert.rejects(
+      fetcher.fetch("file:///etc/passwd"),
+      rejectsWith("unsafe-url", /file scheme is not allowed/),
+    );
+    assert.equal(sites.hits.get("/page"), undefined);
+  });
+
+  it("checks every redirect and limits the chain", async () => {
+    process.env.SCRAPE_ALLOW_PRIVATE_HOSTS = "127.0.0.1";
+    const fetcher = new SafeFetcher();
+
+    const page = await fetcher.fetch(`${sites.url}/page`);
+    assert.equal(page.text(), "<p>Hello</p>");
+
+    await assert.rejects(
+      fetcher.fetch(`${sites.url}/metadata`),
+      rejectsWith("unsafe-url", /169\.254\.169\.254/),
+    );
+    await assert.rejects(
+      fetcher.fetch(`${sites.url}/loop`),
+      rejectsWith("too-many-redirects", /more than 5/),
+    );
+    assert.equal(sites.hits.get("/loop"), 6);
+  });
+
+  it("checks the address each connection is opened to", async () => {
+    delete process.env.SCRAPE_ALLOW_PRIVATE_HOSTS;
+    // A rebinding host: public for the first lookup, loopback afterwards
+    let lookups = 0;
+    const fetcher = new SafeFetcher({
+      resolve: async () => [
+        lookups++ === 0
+          ? { address: "93.184.216.34", family: 4 }
+          : { address: "127.0.0.1", family: 4 },
+      ],
+    });
+    const port = new URL(sites.url).port;
+
+    await assert.rejects(
+      fetcher.fetch(`http://rebind.test:${port}/internal`),
+      rejectsWith("unsafe-url", /rebind\.test resolves to .* 127\.0\.0\.1/),
+    );
+    assert.equal(sites.hits.get("/internal"), undefined);
+  });
+
+  it("connects to the addresses it resolved", async () => {
+    process.env.SCRAPE_ALLOW_PRIVATE_HOSTS = "internal.test";
+    const fetcher = new SafeFetcher({
+      resolve: async () => [{ address: "127.0.0.1", family: 4 }],
+    });
+    const port = new URL(sites.url).port;
+
+    const page = await fetcher.fetch(`http://internal.test:${port}/page`);
+
+    assert.equal(page.text(), "<p>Hello</p>");
+  });
+
+  it("enforces the size limit and content types", async () => {
+    process.env.SCRAPE_ALLOW_PRIVATE_HOSTS = "127.0.0.1";
+    process.env.SCRAPE_MAX_BYTES = "1024";
+    const fetcher = new SafeFetcher();
+
+    await assert.rejects(
+      fetcher.fetch(`${sites.url}/large`),
+      rejectsWith("too-large", /larger than 1024 bytes/),
+    );
+    const truncated = await fetcher.fetch(`${sites.url}/large`, {
+      truncate: true,
+    });
+    assert.equal(truncated.body.byteLength, 1024);
+
+    await assert.rejects(
+      fetcher.fetch(`${sites.url}/archive.zip`),
+      rejectsWith("unsupported-content-type", /application\/zip/),
+    );
+  });
+});
@@ -0,0 +1,288 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isRateLimitError, Scheduler } from "../src/utils/scheduler";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function deferred() {
+  let resolve = () => {};
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe("Scheduler", () => {
+  it("caps the number of concurrent tasks", async () => {
+    const scheduler = new Scheduler({
+      maxConcurrency: 2,
+      backendRate: 1000,
+      backendBurst: 1000,
+    });
+    let running = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        scheduler.schedule("backend:test", async () => {
+          running++;
+          peak = Math.max(peak, running);
+          await sleep(10);
+          running--;
+        }),
+      ),
+    );
+
+    assert.equal(peak, 2);
+  });
+
+  it("starts queued interactive tasks ahead of bulk tasks", async () => {
+    const scheduler = new Scheduler({
+      maxConcurrency: 1,
+      backendRate: 1000,
+      backendBurst: 1000,
+    });
+    const blocker = deferred();
+    const order: string[] = [];
+
+    const first = scheduler.schedule("backend:test", () => blocker.promise);
+    const queued = [
+      scheduler.schedule("backend:test", async () => order.push("bulk 1"), {
+        priority: "bulk",
+      }),
+      scheduler.schedule("backend:test", async () => order.push("bulk 2"), {
+        priority: "bulk",
+      }),
+      scheduler.schedule("backend:test", async () => order.push("search"), {
+        priority: "interactive",
+      }),
+    ];
+    blocker.resolve();
+    await Promise.all([first, ...queued]);
+
+    assert.deepEqual(order, ["search", "bulk 1", "bulk 2"]);
+  });
+
+  it("throttles each bucket to its rate without holding up other buckets", async () => {
+    const scheduler = new Scheduler({
+      hostRate: 20,
+      hostBurst: 1,
+      hostMinDelay: 0,
+    });
+    const started: Record<string, number[]> = { a: [], b: [] };
+    const begin = Date.now();
+
+    await Promise.all([
+      ...[1, 2, 3].map(() =>
+        scheduler.schedule("host:a.example", async () => {
+          started.a.push(Date.now() - begin);
+        }),
+      ),
+      scheduler.schedule("host:b.example", async () => {
+        started.b.push(Date.now() - begin);
+      }),
+    ]);
+
+    // 20 per second is one every 50ms after the single burst token
+    assert.ok(started.a[2] >= 90, `third start at ${started.a[2]}ms`);
+    assert.ok(started.b[0] < 40, `other host started at ${started.b[0]}ms`);
+  });
+
+  it("limits concurrency and spaces out starts per host", async () => {
+    const scheduler = new Scheduler({
+      hostRate: 1000,
+      hostBurst: 1000,
+      hostConcurrency: 1,
+      hostMinDelay: 30,
+    });
+    let running = 0;
+    let peak = 0;
+    const startAll = async (count: number, minDelay?: number) => {
+      const started: number[] = [];
+      await Promise.all(
+        Array.from({ length: count }, () =>
+          scheduler.schedule(
+            "host:a.example",
+            async () => {
+              started.push(Date.now());
+              running++;
+              peak = Math.max(peak, running);
+              await sleep(5);
+              running--;
+            },
+            { minDelay },
+          ),
+        ),
+      );
+      return started.slice(1).map((time, index) => time - started[index]);
+    };
+
+    const gaps = await startAll(3);
+    // A Crawl-delay longer than HOST_MIN_DELAY takes over
+    const crawlGaps = await startAll(2, 100);
+
+    assert.equal(peak, 1);
+    assert.ok(Math.min(...gaps) >= 25, `gaps ${gaps}`);
+    assert.ok(crawlGaps[0] >= 95, `gaps ${crawlGaps}`);
+  });
+
+  it("applies no host politeness limits to redirect lookups", async () => {
+    const scheduler = new Scheduler({
+      hostConcurrency: 1,
+      hostMinDelay: 1000,
+      redirectRate: 1000,
+      redirectBurst: 1000,
+    });
+    let running = 0;
+    let peak = 0;
+
+    const begin = Date.now();
+    await Promise.all(
+      Array.from({ length: 3 }, () =>
+        scheduler.schedule(
+          "redirect:vertexaisearch.cloud.google.com",
+          async () => {
+            running++;
+            peak = Math.max(peak, running);
+            await sleep(20);
+            running--;
+          },
+        ),
+      ),
+    );
+
+    assert.equal(peak, 3);
+    assert.ok(Date.now() - begin < 500);
+  });
+
+  it("retries rate limited tasks with backoff", async () => {
+    const scheduler = new Scheduler({ backendRate: 1000, backendBurst: 1000 });
+    let attempts = 0;
+
+    const result = await scheduler.schedule(
+      "backend:test",
+      async () => {
+        attempts++;
+        if (attempts < 3) {
+          throw new Error("429 RESOURCE_EXHAUSTED");
+        }
+        return "ok";
+      },
+      { retries: 3, retryDelay: 5 },
+    );
+
+    assert.equal(result, "ok");
+    assert.equal(attempts, 3);
+  });
+
+  it("does not retry other errors by default", async () => {
+    const scheduler = new Scheduler();
+    let attempts = 0;
+
+    await assert.rejects(
+      scheduler.schedule(
+        "backend:test",
+        async () => {
+          attempts++;
+          throw new Error("400 Bad Request");
+        },
+        { retries: 3, retryDelay: 5 },
+      ),
+      /400/,
+    );
+    assert.equal(attempts, 1);
+  });
+
+  it("slows a bucket down after a rate limit error", async () => {
+    const scheduler = new Scheduler({ backendRate: 100, backendBurst: 5 });
+
+    await assert.rejects(
+      scheduler.schedule("backend:test", async () => {
+        throw new Error("HTTP error! status: 429");
+      }),
+    );
+    const begin = Date.now();
+    await scheduler.schedule("backend:test", async () => {});
+
+    // The burst is gone and the rate is halved: one token takes ~20ms
+    assert.ok(Date.now() - begin >= 15);
+  });
+
+  it("drops queued tasks and stops retrying when aborted", async () => {
+    const scheduler = new Scheduler({
+      maxConcurrency: 1,
+      backendRate: 1000,
+      backendBurst: 1000,
+    });
+    const blocker = deferred();
+    const controller = new AbortController();
+    let queuedRan = false;
+    let attempts = 0;
+
+    const first = scheduler.schedule("backend:test", () => blocker.promise);
+    const queued = scheduler.schedule(
+      "backend:test",
+      async () => {
+        queuedRan = true;
+      },
+      { signal: controller.signal },
+    );
+    controller.abort(new Error("cancelled"));
+    await assert.rejects(queued, /cancelled/);
+
+    blocker.resolve();
+    await first;
+    assert.equal(queuedRan, false);
+
+    const retrying = new AbortController();
+    const begin = Date.now();
+    const pending = scheduler.schedule(
+      "backend:test",
+      async () => {
+        attempts++;
+        throw new Error("HTTP error! status: 429");
+      },
+      { retries: 3, retryDelay: 10_000, signal: retrying.signal },
+    );
+    setTimeout(() => retrying.abort(new Error("cancelled")), 20);
+
+    await assert.rejects(pending, /cancelled/);
+    assert.equal(attempts, 1);
+    assert.ok(Date.now() - begin < 5000);
+  });
+});
+
+describe("isRateLimitError", () => {
+  it("recognizes 429 statuses in every backend's error format", () => {
+    for (const message of [
+      "Code Assist API error: 429 - quota exceeded",
+      "Vertex AI error: 429 - Too Many Requests",
+      "HTTP error! status: 429",
+      "got status: 429 Too Many Requests",
+      "[429 Too Many Requests] slow down",
+      '{"error":{"code": 429,"message":"quota"}}',
+      "RESOURCE_EXHAUSTED: check quota",
+    ]) {
+      assert.equal(isRateLimitError(new Error(message)), true, message);
+    }
+    assert.equal(
+      isRateLimitError(
+        Object.assign(new Error("rate limited"), { status: 429 }),
+      ),
+      true,
+    );
+  });
+
+  it("ignores other numbers that contain 429", () => {
+    for (const message of [
+      "Response exceeded 14290 bytes",
+      "connect ECONNREFUSED 127.0.0.1:4290",
+      "Request 8f429a failed",
+      "Failed to fetch https://example.com/posts/429",
+      "Code Assist API error: 500 - request id 429",
+      "HTTP error! status: 503",
+    ]) {
+      assert.equal(isRateLimitError(new Error(message)), false, message);
+    }
+  });
+});
@@ -0,0 +1,223 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { PersistentCache } from "../src/utils/cache";
+import { Scraper } from "../src/utils/scraper";
+import { tempDir } from "./helpers/env";
+import {
+  articleHtml,
+  type FakeSites,
+  pdfDocument,
+  startFakeSites,
+} from "./helpers/fake-sites";
+
+const paragraphs = Array.from(
+  { length: 8 },
+  (_, index) =>
+    `Paragraph ${index + 1} explains how the runtime schedules work on the event loop and why that matters for throughput.`,
+);
+
+describe("Scraper", () => {
+  let sites: FakeSites;
+
+  before(async () => {
+    // The fake sites listen on loopback
+    process.env.SCRAPE_ALLOW_PRIVATE_HOSTS = "127.0.0.1";
+    sites = await startFakeSites({
+      "/article": { body: articleHtml("Event Loop Guide", paragraphs) },
+      "/flaky": {
+        body: articleHtml("Flaky Page", paragraphs),
+        failTimes: 1,
+      },
+      "/broken": { status: 503, body: "Service Unavailable" },
+      "/spec.pdf": {
+        body: pdfDocument(["Streams are sequences of chunks."]),
+        contentType: "application/pdf",
+      },
+      "/private": { body: articleHtml("Private", paragraphs) },
+      "/robots.txt": {
+        body: "User-agent: *\nDisallow: /private\n",
+        contentType: "text/plain",
+      },
+    });
+  });
+
+  after(() => sites.close());
+
+  function createScraper() {
+    return new Scraper(
+      undefined,
+      new PersistentCache({ directory: tempDir("scraper-cache") }),
+    );
+  }
+
+  it("extracts the article as Markdown", async () => {
+    const result = await createScraper().scrapeUrl(`${sites.url}/article`);
+
+    assert.equal(result.error, undefined);
+    assert.equal(result.title, "Event Loop Guide");
+    assert.match(result.content ?? "", /Paragraph 1 explains/);
+  });
+
+  it("truncates full content at maxContentLength", async () => {
+    const result = await createScraper().scrapeUrl(`${sites.url}/article`, {
+      maxContentLength: 100,
+    });
+
+    assert.match(
+      result.content ?? "",
+      /\[Content truncated at 100 characters\]$/,
+    );
+    assert.equal(result.truncation?.shownLength, 100);
+    assert.ok((result.truncation?.totalLength ?? 0) > 100);
+  });
+
+  it("limits full content to FULL_CONTENT_LENGTH by default", async () => {
+    process.env.FULL_CONTENT_LENGTH = "100";
+    const scraper = createScraper();
+    delete process.env.FULL_CONTENT_LENGTH;
+
+    const result = await scraper.scrapeUrl(`${sites.url}/article`);
+
+    assert.equal(result.truncation?.shownLength, 100);
+  });
+
+  it("reports no truncation when the page fits", async () => {
+    const result = await createScraper().scrapeUrl(`${sites.url}/article`);
+
+    assert.equal(result.truncation, undefined);
+  });
+
+  it("retries failed requests", async () => {
+    const result = await createScraper().scrapeUrl(`${sites.url}/flaky`, {
+      retries: 2,
+    });
+
+    assert.equal(result.title, "Flaky Page");
+    assert.equal(sites.hits.get("/flaky"), 2);
+  });
+
+  it("returns an error result after all retries fail", async () => {
+    const result = await createScraper().scrapeUrl(`${sites.url}/broken`, {
+      retries: 2,
+    });
+
+    assert.equal(result.content, null);
+    assert.match(result.error ?? "", /status: 503/);
+    assert.equal(sites.hits.get("/broken"), 2);
+  });
+
+  it("caches per content mode", async () => {
+    const scraper = createScraper();
+    const url = `${sites.url}/article`;
+    sites.hits.delete("/article");
+
+    await scraper.scrapeUrl(url, { contentMode: "full" });
+    await scraper.scrapeUrl(url, { contentMode: "full" });
+    assert.equal(sites.hits.get("/article"), 1);
+
+    const excerpt = await scraper.scrapeUrl(url, { contentMode: "excerpt" });
+    assert.equal(sites.hits.get("/article"), 2);
+    assert.ok((excerpt.content ?? "").length <= 1003);
+  });
+
+  it("rejects instead of returning an error result when aborted", async () => {
+    sites.hits.delete("/broken");
+
+    await assert.rejects(
+      createScraper().scrapeUrl(`${sites.url}/broken`, {
+        signal: AbortSignal.abort(new Error("cancelled")),
+      }),
+      /cancelled/,
+    );
+    assert.equal(sites.hits.get("/broken"), undefined);
+  });
+
+  it("reports pages disallowed by robots.txt without fetching them", async () => {
+    const result = await createScraper().scrapeUrl(`${sites.url}/private`);
+
+    assert.equal(result.content, null);
+    assert.equal(result.errorKind, "robots-disallowed");
+    assert.equal(sites.hits.get("/private"), undefined);
+  });
+
+  it("tells an unreachable robots.txt apart from a disallow", async () => {
+    const flaky = await startFakeSites({
+      "/page": { body: articleHtml("Page", paragraphs) },
+      "/robots.txt": { status: 503, body: "Service Unavailable" },
+    });
+
+    try {
+      const result = await createScraper().scrapeUrl(`${flaky.url}/page`);
+
+      assert.equal(result.errorKind, "robots-unavailable");
+      assert.equal(
+        result.error,
+        "robots.txt unavailable (HTTP 503); not fetching",
+      );
+      assert.equal(flaky.hits.get("/page"), undefined);
+    } finally {
+      await flaky.close();
+    }
+  });
+
+  it("reports blocked URLs without retrying them", async () => {
+    const result = await createScraper().scrapeUrl(
+      "http://169.254.169.254/latest/meta-data/",
+    );
+
+    assert.equal(result.errorKind, "unsafe-url");
+    assert.match(result.error ?? "", /private or link-local address/);
+  });
+
+  it("passes the query to the summarizer and caches per query", async () => {
+    // Short enough for the article to need an AI excerpt
+    process.env.EXCERPT_LENGTH = "200";
+    const queries: (string | undefined)[] = [];
+    const scraper = new Scraper(
+      {
+        summarize: async (text, _maxLength, options) => {
+          queries.push(options?.query);
+          const offset = text.indexOf("Paragraph 2");
+          return {
+            text: `About ${options?.query}`,
+            coverage: {
+              chunks: 1,
+              summarizedChunks: 1,
+              droppedChunks: 0,
+              truncated: false,
+            },
+            quotes: [{ text: "Paragraph 2", offset, line: 3 }],
+          };
+        },
+      },
+      new PersistentCache({ directory: tempDir("scraper-cache") }),
+    );
+    delete process.env.EXCERPT_LENGTH;
+    const url = `${sites.url}/article`;
+
+    const first = await scraper.scrapeUrl(url, {
+      contentMode: "excerpt",
+      query: "event loop",
+    });
+    await scraper.scrapeUrl(url, {
+      contentMode: "excerpt",
+      query: "event loop",
+    });
+    await scraper.scrapeUrl(url, {
+      contentMode: "excerpt",
+      query: "throughput",
+    });
+
+    assert.deepEqual(queries, ["event loop", "throughput"]);
+    assert.equal(first.content, "About event loop");
+    assert.equal(first.quotes?.[0].text, "Paragraph 2");
+  });
+
+  it("extracts documents by content type", async () => {
+    const result = await createScraper().scrapeUrl(`${sites.url}/spec.pdf`);
+
+    assert.equal(result.error, undefined);
+    assert.equal(result.title, "spec.pdf");
+    assert.equal(result.content, "Streams are sequences of chunks.");
+  });
+});
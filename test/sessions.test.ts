@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { SessionStore } from "../src/gemini/sessions";
+
+describe("SessionStore", () => {
+  it("returns turns oldest first", () => {
+    const store = new SessionStore({ ttl: 60000, maxTurns: 5 });
+
+    assert.equal(store.append("s", "q1", "a1"), 1);
+    assert.equal(store.append("s", "q2", "a2"), 2);
+
+    assert.deepEqual(store.history("s"), [
+      { role: "user", text: "q1" },
+      { role: "model", text: "a1" },
+      { role: "user", text: "q2" },
+      { role: "model", text: "a2" },
+    ]);
+    assert.deepEqual(store.history("unknown"), []);
+  });
+
+  it("keeps only the newest maxTurns exchanges", () => {
+    const store = new SessionStore({ ttl: 60000, maxTurns: 2 });
+
+    store.append("s", "q1", "a1");
+    store.append("s", "q2", "a2");
+    assert.equal(store.append("s", "q3", "a3"), 2);
+
+    assert.deepEqual(
+      store.history("s").map((turn) => turn.text),
+      ["q2", "a2", "q3", "a3"],
+    );
+  });
+
+  it("expires idle sessions", async () => {
+    const store = new SessionStore({ ttl: 20, maxTurns: 5 });
+
+    store.append("s", "q1", "a1");
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    assert.deepEqual(store.history("s"), []);
+    assert.equal(store.size, 0);
+  });
+
+  it("drops the least recently used session when full", () => {
+    const store = new SessionStore({ ttl: 60000, maxTurns: 5, maxSessions: 2 });
+
+    store.append("a", "q", "a");
+    store.append("b", "q", "a");
+    store.append("a", "q2", "a2");
+    store.append("c", "q", "a");
+
+    assert.equal(store.size, 2);
+    assert.deepEqual(store.history("b"), []);
+    assert.equal(store.history("a").length, 4);
+  });
+
+  it("resets a session", () => {
+    const store = new SessionStore({ ttl: 60000, maxTurns: 5 });
+
+    store.append("s", "q1", "a1");
+
+    assert.equal(store.reset("s"), true);
+    assert.deepEqual(store.history("s"), []);
+    assert.equal(store.reset("s"), false);
+  });
+});
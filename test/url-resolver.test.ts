@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { UrlResolver } from "../src/utils/url-resolver";
+import { type FakeSites, startFakeSites } from "./helpers/fake-sites";
+
+const BULK_LOOKUPS = 30;
+
+describe("UrlResolver", () => {
+  let redirects: FakeSites;
+  let resolver: UrlResolver;
+
+  before(async () => {
+    redirects = await startFakeSites({
+      "/grounding-api-redirect/a": { redirect: "/grounding-api-redirect/b" },
+      "/grounding-api-redirect/b": { redirect: "https://docs.example/page" },
+      "/grounding-api-redirect/c": { redirect: "https://docs.example/page" },
+      "/grounding-api-redirect/loop": {
+        redirect: "/grounding-api-redirect/loop",
+      },
+      "/grounding-api-redirect/slow": {
+        redirect: "https://docs.example/slow",
+        delay: 2000,
+      },
+      "/grounding-api-redirect/shared": {
+        redirect: "https://docs.example/shared",
+        delay: 200,
+      },
+      "/grounding-api-redirect/urgent": {
+        redirect: "https://docs.example/urgent",
+      },
+      ...Object.fromEntries(
+        Array.from({ length: BULK_LOOKUPS }, (_, index) => [
+          `/grounding-api-redirect/bulk-${index}`,
+          { redirect: `https://docs.example/bulk-${index}`, delay: 50 },
+        ]),
+      ),
+    });
+    process.env.GROUNDING_REDIRECT_HOSTS = redirects.host;
+    resolver = new UrlResolver();
+  });
+
+  after(() => redirects.close());
+
+  it("follows redirect chains to the source URL", async () => {
+    assert.equal(
+      await resolver.resolve(`${redirects.url}/grounding-api-redirect/a`),
+      "https://docs.example/page",
+    );
+  });
+
+  it("caches resolved URLs", async () => {
+    const url = `${redirects.url}/grounding-api-redirect/c`;
+    await resolver.resolve(url);
+    await resolver.resolve(url);
+
+    assert.equal(redirects.hits.get("/grounding-api-redirect/c"), 1);
+  });
+
+  it("leaves other URLs untouched", async () => {
+    assert.equal(
+      await resolver.resolve("https://other.example/"),
+      "https://other.example/",
+    );
+  });
+
+  it("keeps the original URL when resolution fails", async () => {
+    const loop = `${redirects.url}/grounding-api-redirect/loop`;
+    const missing = `${redirects.url}/grounding-api-redirect/missing`;
+
+    assert.equal(await resolver.resolve(loop), loop);
+    assert.equal(await resolver.resolve(missing), missing);
+  });
+
+  it("records the original URL and dedupes search results", async () => {
+    const results = await resolver.resolveSearchResults([
+      {
+        title: "A",
+        url: `${redirects.url}/grounding-api-redirect/a`,
+        snippet: "",
+      },
+      {
+        title: "C",
+        url: `${redirects.url}/grounding-api-redirect/c`,
+        snippet: "",
+      },
+    ]);
+
+    assert.deepEqual(results, [
+      {
+        title: "A",
+        url: "https://docs.example/page",
+        snippet: "",
+        originalUrl: `${redirects.url}/grounding-api-redirect/a`,
+      },
+    ]);
+  });
+
+  it("stops the redirect request when the caller cancels", async () => {
+    const url = `${redirects.url}/grounding-api-redirect/slow`;
+    const controller = new AbortController();
+    const pending = resolver.resolveCitations(
+      [{ number: 1, title: "Slow", url }],
+      { signal: controller.signal },
+    );
+
+    // Cancel once the request has reached the site
+    while (!redirects.hits.has("/grounding-api-redirect/slow")) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    const begin = Date.now();
+    controller.abort(new Error("cancelled"));
+
+    await assert.rejects(pending, /cancelled/);
+    assert.ok(Date.now() - begin < 1000);
+
+    // The request is dropped, not left running to its timeout
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.ok(redirects.aborted.has("/grounding-api-redirect/slow"));
+  });
+
+  it("keeps a shared lookup running for callers still waiting", async () => {
+    const url = `${redirects.url}/grounding-api-redirect/shared`;
+    const controller = new AbortController();
+
+    const cancelled = resolver.resolve(url, { signal: controller.signal });
+    const waiting = resolver.resolve(url, {
+      signal: new AbortController().signal,
+    });
+    controller.abort(new Error("cancelled"));
+
+    await assert.rejects(cancelled, /cancelled/);
+    assert.equal(await waiting, "https://docs.example/shared");
+    assert.equal(redirects.hits.get("/grounding-api-redirect/shared"), 1);
+  });
+
+  it("runs interactive lookups ahead of queued bulk lookups", async () => {
+    const bulk = resolver.resolveSearchResults(
+      Array.from({ length: BULK_LOOKUPS }, (_, index) => ({
+        title: `Bulk ${index}`,
+        url: `${redirects.url}/grounding-api-redirect/bulk-${index}`,
+        snippet: "",
+      })),
+      { priority: "bulk" },
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await resolver.resolve(`${redirects.url}/grounding-api-redirect/urgent`);
+    const order = [...redirects.hits.keys()].filter((path) =>
+      /\/(bulk-\d+|urgent)$/.test(path),
+    );
+    await bulk;
+
+    // Bulk lookups that were still queued go after the interactive one
+    assert.ok(order.length < BULK_LOOKUPS + 1, `order ${order}`);
+  });
+});
@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, it } from "node:test";
+import { AuthConfig } from "../src/auth/config";
+import { VertexAIClient } from "../src/gemini/vertex-client";
+import {
+  type FakeCodeAssist,
+  startFakeCodeAssist,
+} from "./helpers/fake-code-assist";
+
+const response = {
+  candidates: [{ content: { parts: [{ text: "Hello" }] } }],
+};
+
+// ADC needs real Google credentials, so tests stand in for the token source
+function stubAuth(location = "us-central1"): AuthConfig {
+  return {
+    getVertexProject: async () => "test-project",
+    getVertexLocation: () => location,
+    getHeaders: async () => ({
+      Authorization: "Bearer test-access-token",
+      "Content-Type": "application/json",
+    }),
+  } as unknown as AuthConfig;
+}
+
+describe("AuthConfig with Vertex AI", () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("is selected by GOOGLE_GENAI_USE_VERTEXAI even with an API key", async () => {
+    process.env.GEMINI_API_KEY = "api-key";
+    process.env.GOOGLE_GENAI_USE_VERTEXAI = "true";
+    process.env.GOOGLE_CLOUD_PROJECT = "my-project";
+    process.env.GOOGLE_CLOUD_LOCATION = "europe-west4";
+
+    const auth = new AuthConfig();
+
+    assert.equal(auth.isVertexAI(), true);
+    assert.equal(auth.isApiKey(), false);
+    assert.equal(await auth.getVertexProject(), "my-project");
+    assert.equal(auth.getVertexLocation(), "europe-west4");
+  });
+
+  it("is the fallback when only a service account key is configured", () => {
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.GOOGLE_GENAI_USE_VERTEXAI;
+    process.env.HOME = "/nonexistent";
+    process.env.GOOGLE_APPLICATION_CREDENTIALS = "/path/to/key.json";
+
+    assert.equal(new AuthConfig().isVertexAI(), true);
+  });
+});
+
+describe("VertexAIClient.generateContent", () => {
+  let fake: FakeCodeAssist;
+
+  before(async () => {
+    fake = await startFakeCodeAssist({ defaultResponse: response });
+  });
+
+  after(() => fake.close());
+
+  it("posts history and the googleSearch tool to the model endpoint", async () => {
+    const client = new VertexAIClient(stubAuth(), { baseURL: fake.url });
+
+    const result = await client.generateContent("gemini-2.5-flash", "and?", {
+      history: [
+        { role: "user", text: "first" },
+        { role: "model", text: "answer" },
+      ],
+    });
+
+    assert.deepEqual(result, response);
+    const request = fake.requests.at(-1);
+    assert.equal(
+      request?.path,
+      "/v1/projects/test-project/locations/us-central1/publishers/google/models/gemini-2.5-flash:generateContent",
+    );
+    assert.equal(request?.headers.authorization, "Bearer test-access-token");
+    assert.deepEqual(JSON.parse(request?.body ?? "{}"), {
+      contents: [
+        { role: "user", parts: [{ text: "first" }] },
+        { role: "model", parts: [{ text: "answer" }] },
+        { role: "user", parts: [{ text: "and?" }] },
+      ],
+      tools: [{ googleSearch: {} }],
+    });
+  });
+
+  it("leaves the search tool off for ungrounded generation", async () => {
+    const client = new VertexAIClient(stubAuth(), { baseURL: fake.url });
+
+    await client.generateContent("gemini-2.5-flash", "summarize", {
+      grounded: false,
+    });
+
+    assert.equal(
+      JSON.parse(fake.requests.at(-1)?.body ?? "{}").tools,
+      undefined,
+    );
+  });
+
+  it("retries 429 responses with backoff", async () => {
+    await fake.close();
+    fake = await startFakeCodeAssist({
+      rateLimitResponses: 2,
+      defaultResponse: response,
+    });
+    const client = new VertexAIClient(stubAuth(), {
+      baseURL: fake.url,
+      retryDelayMs: 5,
+    });
+
+    assert.deepEqual(
+      await client.generateContent("gemini-2.5-flash", "hi"),
+      response,
+    );
+    assert.equal(fake.requests.length, 3);
+  });
+});